@@ -0,0 +1,160 @@
+import { Instrument, ParsedNote, Song, parseVoice } from './songs';
+
+// --- Music Sequencer ---
+// Notes are scheduled on the AudioContext clock a little ahead of time by a
+// short interval timer, so a busy main thread delays the scheduling, not the
+// notes themselves. Every note that has been started is tracked so stop() can
+// cut it instead of letting it ring out.
+
+const LOOKAHEAD = 0.1; // Seconds of music scheduled ahead of the clock
+const SCHEDULE_INTERVAL = 25; // ms between scheduling passes
+const START_DELAY = 0.05; // Seconds from play()/resume() to the first note
+
+interface InstrumentSpec {
+  type: OscillatorType;
+  level: number;
+  attack: number; // Seconds to full level
+  sustain: number; // Share of the note length before it has faded out
+}
+
+const INSTRUMENTS: Record<Instrument, InstrumentSpec> = {
+  LEAD: { type: 'sine', level: 0.05, attack: 0.01, sustain: 1 },
+  BASS: { type: 'triangle', level: 0.06, attack: 0.01, sustain: 0.9 },
+  BELL: { type: 'triangle', level: 0.05, attack: 0.005, sustain: 0.6 },
+  CHIP: { type: 'square', level: 0.02, attack: 0.005, sustain: 0.8 },
+  PAD: { type: 'sine', level: 0.03, attack: 0.15, sustain: 1 },
+};
+
+interface VoiceCursor {
+  spec: InstrumentSpec;
+  level: number;
+  notes: ParsedNote[];
+  index: number;
+  time: number; // Clock time of the next note
+}
+
+// Parsing once per song rather than every time it comes round
+const parsedSongs = new WeakMap<Song, ParsedNote[][]>();
+
+function parseSong(song: Song): ParsedNote[][] {
+  let parsed = parsedSongs.get(song);
+  if (!parsed) {
+    parsed = song.voices.map(v => parseVoice(v.notes));
+    parsedSongs.set(song, parsed);
+  }
+  return parsed;
+}
+
+export class Sequencer {
+  ctx: AudioContext;
+  output: AudioNode;
+  playlist: Song[] = [];
+  songIndex = 0;
+  cursors: VoiceCursor[] = [];
+  timer: number | null = null;
+  playing = new Set<OscillatorNode>();
+
+  constructor(ctx: AudioContext, output: AudioNode = ctx.destination) {
+    this.ctx = ctx;
+    this.output = output;
+  }
+
+  get isPlaying() {
+    return this.timer !== null;
+  }
+
+  // Loops through the playlist from the first song
+  play(playlist: Song[]) {
+    this.stop();
+    if (playlist.length === 0) return;
+    this.playlist = playlist;
+    this.songIndex = 0;
+    this.loadSong(this.ctx.currentTime + START_DELAY);
+    this.startTimer();
+  }
+
+  // Stops scheduling but keeps the position; notes already in the lookahead still sound
+  pause() {
+    if (this.timer === null) return;
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  resume() {
+    if (this.timer !== null || this.cursors.length === 0) return;
+    // The clock kept running (or was suspended) while paused, so move the song up to now
+    const next = Math.min(...this.cursors.map(c => c.time));
+    const shift = this.ctx.currentTime + START_DELAY - next;
+    if (shift > 0) this.cursors.forEach(c => c.time += shift);
+    this.startTimer();
+  }
+
+  stop() {
+    this.pause();
+    this.playing.forEach(osc => {
+      try { osc.stop(); } catch(e){}
+    });
+    this.playing.clear();
+    this.cursors = [];
+  }
+
+  private startTimer() {
+    this.schedule();
+    this.timer = window.setInterval(() => this.schedule(), SCHEDULE_INTERVAL);
+  }
+
+  private loadSong(startTime: number) {
+    const song = this.playlist[this.songIndex];
+    const voices = parseSong(song);
+    this.cursors = song.voices.map((voice, i) => ({
+      spec: INSTRUMENTS[voice.instrument],
+      level: voice.volume ?? 1,
+      notes: voices[i],
+      index: 0,
+      time: startTime
+    }));
+  }
+
+  private schedule() {
+    const until = this.ctx.currentTime + LOOKAHEAD;
+    const beat = 60 / this.playlist[this.songIndex].bpm;
+
+    for (const cursor of this.cursors) {
+      while (cursor.index < cursor.notes.length && cursor.time < until) {
+        const note = cursor.notes[cursor.index];
+        if (note.freq !== null) this.playNote(cursor, note.freq, cursor.time, note.beats * beat);
+        cursor.time += note.beats * beat;
+        cursor.index++;
+      }
+    }
+
+    // The next song starts when the longest voice has finished
+    if (this.cursors.every(c => c.index >= c.notes.length)) {
+      const end = Math.max(...this.cursors.map(c => c.time));
+      this.songIndex = (this.songIndex + 1) % this.playlist.length;
+      this.loadSong(end);
+      if (end < until) this.schedule();
+    }
+  }
+
+  private playNote(cursor: VoiceCursor, freq: number, time: number, length: number) {
+    const { spec } = cursor;
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+    osc.type = spec.type;
+    osc.frequency.value = freq;
+    osc.connect(gain);
+    gain.connect(this.output);
+
+    const peak = spec.level * cursor.level;
+    const fadeEnd = time + Math.max(length * spec.sustain, spec.attack + 0.01);
+    gain.gain.setValueAtTime(0.0001, time);
+    gain.gain.linearRampToValueAtTime(peak, time + spec.attack);
+    gain.gain.exponentialRampToValueAtTime(0.001, fadeEnd);
+
+    osc.start(time);
+    osc.stop(Math.max(fadeEnd, time + length));
+    this.playing.add(osc);
+    osc.onended = () => this.playing.delete(osc);
+  }
+}
@@ -0,0 +1,111 @@
+// --- Songs ---
+// A song is a tempo plus any number of voices that play side by side. Each
+// voice is written as space-separated notes: a pitch ('C4', 'F#3', 'Bb4') or
+// 'R' for a rest, optionally followed by '/' and a length in beats (default 1).
+// Voices of a song should add up to the same number of beats so it loops cleanly.
+
+export type Instrument = 'LEAD' | 'BASS' | 'BELL' | 'CHIP' | 'PAD';
+
+export interface Voice {
+  instrument: Instrument;
+  notes: string;
+  volume?: number; // Multiplies the instrument's own level, default 1
+}
+
+export interface Song {
+  id: string;
+  title: string;
+  bpm: number;
+  voices: Voice[];
+}
+
+export interface ParsedNote {
+  freq: number | null; // null is a rest
+  beats: number;
+}
+
+const SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+export function noteFrequency(name: string): number {
+  const match = /^([A-G])(#|b)?(\d)$/.exec(name);
+  if (!match) throw new Error(`Unknown note "${name}"`);
+  const [, letter, accidental, octave] = match;
+  const midi = 12 * (Number(octave) + 1) + SEMITONES[letter] + (accidental === '#' ? 1 : accidental === 'b' ? -1 : 0);
+  return 440 * Math.pow(2, (midi - 69) / 12);
+}
+
+export function parseVoice(notes: string): ParsedNote[] {
+  return notes.trim().split(/\s+/).map(token => {
+    const [pitch, length] = token.split('/');
+    return {
+      freq: pitch === 'R' ? null : noteFrequency(pitch),
+      beats: length ? Number(length) : 1
+    };
+  });
+}
+
+export const HAPPY_BIRTHDAY: Song = {
+  id: 'HAPPY_BIRTHDAY',
+  title: 'Happy Birthday',
+  bpm: 120,
+  voices: [
+    { instrument: 'LEAD', notes: 'G4/.75 G4/.25 A4 G4 C5 B4/2 G4/.75 G4/.25 A4 G4 D5 C5/2 G4/.75 G4/.25 G5 E5 C5 B4 A4 F5/.75 F5/.25 E5 C5 D5 C5/3 R/2' },
+    { instrument: 'BASS', notes: 'R C3/3 G2/3 G2/3 C3/3 C3/3 F2/3 G2/3 C3/3 R/2' },
+  ]
+};
+
+// "I dag er det Nichlas' fødselsdag, hurra, hurra, hurra!"
+export const NICHLAS_BIRTHDAY: Song = {
+  id: 'NICHLAS_BIRTHDAY',
+  title: "I dag er det Nichlas' fødselsdag",
+  bpm: 132,
+  voices: [
+    {
+      instrument: 'LEAD',
+      notes: 'G4/.5 G4/.5 C5 C5/.5 D5/.5 E5/.5 C5/.5 D5/2 R/2 G4 C5/2 R G4 D5/2 R G4 E5/2 R ' +
+        'F5/.5 E5/.5 D5/.5 C5/.5 B4/.5 C5/.5 D5/.5 B4/.5 C5/.5 D5/.5 E5/.5 F5/.5 G5 E5 C5/3 R'
+    },
+    { instrument: 'BASS', notes: 'C3/2 G2/2 G2/2 G2/2 C3/2 C3/2 G2/2 G2/2 C3/2 C3/2 F2/2 G2/2 C3/2 G2/2 C3/4' },
+    { instrument: 'BELL', notes: 'R/8 C6/.5 R/3.5 D6/.5 R/3.5 E6/.5 R/3.5 R/12', volume: 0.7 },
+  ]
+};
+
+// "Blinke, blinke, lille stjerne"
+export const TWINKLE: Song = {
+  id: 'TWINKLE',
+  title: 'Blinke, blinke, lille stjerne',
+  bpm: 96,
+  voices: [
+    { instrument: 'BELL', notes: 'C5 C5 G5 G5 A5 A5 G5/2 F5 F5 E5 E5 D5 D5 C5/2 R/4' },
+    { instrument: 'PAD', notes: 'C3/4 F3/2 C3/2 F3/2 C3/2 G3/2 C3/2 R/4' },
+  ]
+};
+
+export const JINGLE_BELLS: Song = {
+  id: 'JINGLE_BELLS',
+  title: 'Jingle Bells',
+  bpm: 160,
+  voices: [
+    {
+      instrument: 'BELL',
+      notes: 'E5 E5 E5/2 E5 E5 E5/2 E5 G5 C5/1.5 D5/.5 E5/4 F5 F5 F5/1.5 F5/.5 F5 E5 E5 E5/.5 E5/.5 E5 D5 D5 E5 D5/2 G5/2'
+    },
+    { instrument: 'BASS', notes: 'C3/2 G2/2 C3/2 G2/2 C3/2 G2/2 C3/2 G2/2 F2/2 F2/2 C3/2 C3/2 G2/2 G2/2 G2/2 G2/2' },
+  ]
+};
+
+export const SUMMER_SONG: Song = {
+  id: 'SUMMER_SONG',
+  title: 'Sommervise',
+  bpm: 150,
+  voices: [
+    {
+      instrument: 'CHIP',
+      notes: 'C5/.5 E5/.5 G5 E5/.5 C5/.5 D5 B4/.5 D5/.5 G5 F5/.5 D5/.5 E5 ' +
+        'C5/.5 E5/.5 G5 A4/.5 C5/.5 F5 E5/.5 D5/.5 B4/.5 G4/.5 C5/2'
+    },
+    { instrument: 'BASS', notes: 'C3 G2 C3 G2 G2 D3 G2 C3 C3 G2 F2 C3 G2 G2 C3 R' },
+  ]
+};
+
+export const SONGS: Song[] = [HAPPY_BIRTHDAY, NICHLAS_BIRTHDAY, TWINKLE, JINGLE_BELLS, SUMMER_SONG];
@@ -0,0 +1,52 @@
+import React from 'react';
+import { AudioSettings } from '../storage/audio';
+import { useStrings } from '../i18n/useStrings';
+import { menuButton, smallButton } from './buttonStyles';
+
+interface AudioPanelProps {
+  settings: AudioSettings;
+  muteKey: string | null; // Label of the key bound to MUTE, if any
+  onChange: (settings: AudioSettings) => void;
+  onClose: () => void;
+}
+
+const SLIDERS: ('master' | 'music' | 'sfx')[] = ['master', 'music', 'sfx'];
+
+export default function AudioPanel({ settings, muteKey, onChange, onClose }: AudioPanelProps) {
+  const t = useStrings();
+
+  return (
+    <div style={{ minWidth: '300px' }}>
+        <h3 style={{ margin: '0 0 10px 0', color: '#2980B9', fontSize: '20px' }}>{t.audio.title}</h3>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', opacity: settings.muted ? 0.5 : 1 }}>
+            {SLIDERS.map(key => (
+                <label key={key} style={{ display: 'flex', alignItems: 'center', gap: '10px', color: '#555', fontWeight: 'bold' }}>
+                    <span style={{ width: '80px', textAlign: 'left' }}>{t.audio[key]}</span>
+                    <input
+                        type="range"
+                        min={0}
+                        max={100}
+                        value={Math.round(settings[key] * 100)}
+                        onChange={e => onChange({ ...settings, [key]: Number(e.target.value) / 100 })}
+                        style={{ flex: 1 }}
+                    />
+                    <span style={{ width: '40px', textAlign: 'right', fontSize: '12px', color: '#777' }}>{Math.round(settings[key] * 100)}%</span>
+                </label>
+            ))}
+        </div>
+        <button
+            onClick={() => onChange({ ...settings, muted: !settings.muted })}
+            style={{ ...menuButton(settings.muted && '#E74C3C'), padding: '6px 14px', marginTop: '12px' }}
+        >
+            {settings.muted ? t.audio.muted : t.audio.mute}
+        </button>
+        {muteKey && <div style={{ fontSize: '12px', color: '#999', marginTop: '6px' }}>{t.audio.hotkey(muteKey)}</div>}
+        <button
+            onClick={onClose}
+            style={{ ...smallButton(), marginTop: '15px', display: 'block', marginLeft: 'auto', marginRight: 'auto' }}
+        >
+            {t.common.back}
+        </button>
+    </div>
+  );
+}
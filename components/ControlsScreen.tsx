@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { ACTIONS, Action, Bindings, DEFAULT_BINDINGS, bindButton, bindKey, buttonLabel, keyLabel, unbind } from '../input/bindings';
+import { InputManager } from '../input/InputManager';
+import { useStrings } from '../i18n/useStrings';
+import { menuButton, smallButton } from './buttonStyles';
+
+interface ControlsScreenProps {
+  bindings: Bindings;
+  input: InputManager;
+  onChange: (bindings: Bindings) => void;
+  onClose: () => void;
+}
+
+// A bound key or button, small enough to list a few per action
+const chipStyle = (highlight?: string) => ({
+  ...smallButton(highlight),
+  display: 'inline-flex',
+  alignItems: 'center',
+  gap: '4px',
+  padding: '2px 8px',
+  margin: '2px'
+});
+
+export default function ControlsScreen({ bindings, input, onChange, onClose }: ControlsScreenProps) {
+  const t = useStrings();
+  const [capturing, setCapturing] = useState<Action | null>(null);
+
+  // Never leave the input manager swallowing keys once this screen is gone
+  useEffect(() => () => input.cancelCapture(), [input]);
+
+  const startCapture = (action: Action) => {
+    setCapturing(action);
+    input.captureNext(captured => {
+      setCapturing(null);
+      if ('key' in captured) {
+        // Escape cancels instead of binding
+        if (captured.key === 'Escape') return;
+        onChange(bindKey(bindings, action, captured.key));
+      } else {
+        onChange(bindButton(bindings, action, captured.button));
+      }
+    });
+  };
+
+  return (
+    <div>
+        <h3 style={{ margin: '0 0 10px 0', color: '#D35400', fontSize: '20px' }}>{t.controls.title}</h3>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', minWidth: '320px' }}>
+            {ACTIONS.map(action => (
+                <div key={action} style={{
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    gap: '10px',
+                    borderBottom: '1px dashed #eee',
+                    paddingBottom: '6px'
+                }}>
+                    <span style={{ fontWeight: 'bold', color: '#555', minWidth: '110px', textAlign: 'left' }}>
+                        {t.actions[action]}
+                    </span>
+                    <span style={{ flex: 1, textAlign: 'right' }}>
+                        {bindings[action].keys.map(key => (
+                            <button key={key} style={chipStyle()} onClick={() => onChange(unbind(bindings, action, { key }))}>
+                                {keyLabel(key, t.keys)} ✕
+                            </button>
+                        ))}
+                        {bindings[action].buttons.map(button => (
+                            <button key={button} style={chipStyle()} onClick={() => onChange(unbind(bindings, action, { button }))}>
+                                {buttonLabel(button)} ✕
+                            </button>
+                        ))}
+                        <button
+                            style={chipStyle(capturing === action ? '#E74C3C' : '#27AE60')}
+                            onClick={() => startCapture(action)}
+                        >
+                            {capturing === action ? t.controls.capturing : '+'}
+                        </button>
+                    </span>
+                </div>
+            ))}
+        </div>
+        <div style={{ marginTop: '10px', fontSize: '12px', color: '#666' }}>
+            {t.controls.help}
+        </div>
+        <div style={{ display: 'flex', gap: '10px', justifyContent: 'center', marginTop: '15px' }}>
+            <button style={{ ...menuButton(), fontSize: '14px' }} onClick={() => onChange(DEFAULT_BINDINGS)}>
+                {t.controls.reset}
+            </button>
+            <button style={{ ...menuButton(), fontSize: '14px' }} onClick={onClose}>
+                {t.common.back}
+            </button>
+        </div>
+    </div>
+  );
+}
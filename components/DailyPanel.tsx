@@ -0,0 +1,50 @@
+import React from 'react';
+import { DailyState, currentStreak, hasPlayedDaily } from '../storage/daily';
+import { useStrings } from '../i18n/useStrings';
+import { smallButton } from './buttonStyles';
+
+interface DailyPanelProps {
+  daily: DailyState;
+  today: string;
+  onPlay: () => void;
+  onPractice: () => void;
+}
+
+export default function DailyPanel({ daily, today, onPlay, onPractice }: DailyPanelProps) {
+  const t = useStrings();
+  const played = hasPlayedDaily(daily, today);
+  const streak = currentStreak(daily, today);
+
+  return (
+    <div style={{
+        marginTop: '15px',
+        background: '#f9f9f9',
+        padding: '15px',
+        borderRadius: '8px',
+        border: '1px solid #ddd'
+    }}>
+        <h3 style={{ margin: '0 0 6px 0', color: '#8E44AD', fontSize: '20px' }}>{t.daily.title}</h3>
+        <div style={{ fontSize: '12px', color: '#666', marginBottom: '8px' }}>
+            {t.daily.sameForEveryone} · {streak > 0 ? t.daily.streak(streak) : t.daily.noStreak}
+        </div>
+        <div style={{ display: 'flex', gap: '6px', justifyContent: 'center', alignItems: 'center' }}>
+            {played ? (
+                <span style={{ fontWeight: 'bold', color: '#555' }}>{t.daily.played(daily.lastScore)}</span>
+            ) : (
+                <button onClick={onPlay} style={smallButton('#27AE60')}>{t.daily.play}</button>
+            )}
+            <button onClick={onPractice} style={smallButton()}>{t.daily.practice}</button>
+        </div>
+        {daily.best.length > 0 && (
+            <div style={{ marginTop: '10px', display: 'flex', flexDirection: 'column', gap: '2px', fontSize: '14px', color: '#555' }}>
+                {daily.best.map((e, i) => (
+                    <div key={e.date} style={{ display: 'flex', justifyContent: 'space-between', gap: '10px' }}>
+                        <span>#{i + 1} {e.name}</span>
+                        <span>{e.date && new Date(e.date).toLocaleDateString()} · <b>{e.score}</b></span>
+                    </div>
+                ))}
+            </div>
+        )}
+    </div>
+  );
+}
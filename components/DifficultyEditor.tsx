@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { DIFFICULTIES, DifficultySettings, OBSTACLE_TYPES, ObstacleType, RampCurve } from '../game/constants';
+import { CustomPresets, DEFAULT_RAMP, GAP_VARIANCE_LIMIT, MAX_PRESET_NAME_LENGTH, MIX_WEIGHT_LIMIT, RAMP_LIMITS, SETTING_LIMITS, SettingLimit } from '../game/difficulty';
+import { useStrings } from '../i18n/useStrings';
+import { smallButton } from './buttonStyles';
+
+interface DifficultyEditorProps {
+  presets: CustomPresets;
+  // Name of the preset being edited, '' for a new one
+  name: string;
+  onSave: (name: string, settings: DifficultySettings) => void;
+  onDelete: (name: string) => void;
+  onClose: () => void;
+}
+
+function Slider({ label, limit, value, onChange }: { label: string; limit: SettingLimit; value: number; onChange: (value: number) => void }) {
+  return (
+    <label style={{ display: 'flex', alignItems: 'center', gap: '10px', color: '#555', fontSize: '14px' }}>
+        <span style={{ minWidth: '130px', textAlign: 'left', fontWeight: 'bold' }}>{label}</span>
+        <input
+            type="range"
+            min={limit.min}
+            max={limit.max}
+            step={limit.step}
+            value={value}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange(Number(e.target.value))}
+            style={{ flex: 1 }}
+        />
+        <span style={{ minWidth: '45px', textAlign: 'right' }}>{value}</span>
+    </label>
+  );
+}
+
+export default function DifficultyEditor({ presets, name, onSave, onDelete, onClose }: DifficultyEditorProps) {
+  const t = useStrings();
+  const [draftName, setDraftName] = useState(name);
+  // New presets start from MEDIUM
+  const [settings, setSettings] = useState<DifficultySettings>(() => ({ ...(presets[name] || DIFFICULTIES.MEDIUM) }));
+  const ramp = settings.ramp;
+
+  const setSetting = (key: keyof typeof SETTING_LIMITS, value: number) => setSettings({ ...settings, [key]: value });
+  const setRamp = (key: keyof RampCurve, value: number) => setSettings({ ...settings, ramp: { ...(ramp || DEFAULT_RAMP), [key]: value } });
+  const setWeight = (type: ObstacleType, value: number) => setSettings({ ...settings, obstacleMix: { ...settings.obstacleMix, [type]: value } });
+  const trimmedName = draftName.trim();
+
+  return (
+    <div style={{ minWidth: '360px' }}>
+        <h3 style={{ margin: '0 0 10px 0', color: '#D35400', fontSize: '20px' }}>⚙️ {name ? t.difficultyEditor.edit(name) : t.difficultyEditor.create}</h3>
+        <input
+            type="text"
+            placeholder={t.difficultyEditor.name}
+            maxLength={MAX_PRESET_NAME_LENGTH}
+            value={draftName}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setDraftName(e.target.value)}
+            style={{ padding: '6px 8px', fontSize: '16px', borderRadius: '4px', border: '1px solid #ddd', width: '200px', marginBottom: '10px', fontFamily: 'inherit' }}
+        />
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            {(Object.keys(SETTING_LIMITS) as (keyof typeof SETTING_LIMITS)[]).map(key => (
+                <Slider key={key} label={t.difficultyEditor.settings[key]} limit={SETTING_LIMITS[key]} value={settings[key]} onChange={v => setSetting(key, v)} />
+            ))}
+            <Slider label={t.difficultyEditor.gapVariance} limit={GAP_VARIANCE_LIMIT} value={settings.gapVariance ?? 0} onChange={v => setSettings({ ...settings, gapVariance: v })} />
+        </div>
+
+        <div style={{ margin: '12px 0 6px 0', color: '#555', fontWeight: 'bold' }}>{t.difficultyEditor.obstacleMix}</div>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            {OBSTACLE_TYPES.map(type => (
+                <Slider key={type} label={t.obstacles[type]} limit={MIX_WEIGHT_LIMIT} value={settings.obstacleMix?.[type] ?? 0} onChange={v => setWeight(type, v)} />
+            ))}
+        </div>
+
+        <label style={{ display: 'block', margin: '12px 0 6px 0', color: '#555', fontWeight: 'bold' }}>
+            <input
+                type="checkbox"
+                checked={!!ramp}
+                onChange={() => setSettings({ ...settings, ramp: ramp ? null : { ...DEFAULT_RAMP } })}
+            />
+            {' '}{t.difficultyEditor.ramp}
+        </label>
+        {ramp && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                {(Object.keys(RAMP_LIMITS) as (keyof RampCurve)[]).map(key => (
+                    <Slider key={key} label={t.difficultyEditor.rampSettings[key]} limit={RAMP_LIMITS[key]} value={ramp[key]} onChange={v => setRamp(key, v)} />
+                ))}
+            </div>
+        )}
+
+        <div style={{ display: 'flex', gap: '6px', justifyContent: 'center', marginTop: '15px' }}>
+            <button onClick={() => onSave(trimmedName, settings)} disabled={!trimmedName} style={smallButton('#27AE60')}>{t.common.save}</button>
+            {name && presets[name] && (
+                <button onClick={() => onDelete(name)} style={{ ...smallButton(), color: '#E74C3C' }}>{t.common.delete}</button>
+            )}
+            <button onClick={onClose} style={smallButton()}>{t.common.back}</button>
+        </div>
+    </div>
+  );
+}
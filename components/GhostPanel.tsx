@@ -0,0 +1,67 @@
+import React, { useRef } from 'react';
+import { GhostSlots, GhostSource } from '../storage/ghosts';
+import { useStrings } from '../i18n/useStrings';
+import { smallButton } from './buttonStyles';
+
+interface GhostPanelProps {
+  slots: GhostSlots;
+  enabled: boolean;
+  source: GhostSource;
+  importError: string | null;
+  onToggle: () => void;
+  onSourceChange: (source: GhostSource) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onClearRival: () => void;
+}
+
+const HIGHLIGHT = '#8E44AD';
+
+export default function GhostPanel({ slots, enabled, source, importError, onToggle, onSourceChange, onExport, onImport, onClearRival }: GhostPanelProps) {
+  const t = useStrings();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  return (
+    <div style={{
+        marginTop: '15px',
+        background: '#f9f9f9',
+        padding: '15px',
+        borderRadius: '8px',
+        border: '1px solid #ddd'
+    }}>
+        <h3 style={{ margin: '0 0 10px 0', color: '#8E44AD', fontSize: '20px' }}>{t.ghosts.title}</h3>
+        <div style={{ display: 'flex', gap: '6px', justifyContent: 'center', flexWrap: 'wrap' }}>
+            <button onClick={onToggle} style={smallButton(enabled && HIGHLIGHT)}>
+                {enabled ? t.ghosts.on : t.ghosts.off}
+            </button>
+            <button onClick={() => onSourceChange('BEST')} disabled={!slots.best} style={smallButton(source === 'BEST' && HIGHLIGHT)}>
+                {t.ghosts.best} {slots.best ? `(${slots.best.score})` : '(-)'}
+            </button>
+            <button onClick={() => onSourceChange('RIVAL')} disabled={!slots.rival} style={smallButton(source === 'RIVAL' && HIGHLIGHT)}>
+                {t.ghosts.rival} {slots.rival ? `(${slots.rival.score})` : '(-)'}
+            </button>
+        </div>
+        <div style={{ display: 'flex', gap: '6px', justifyContent: 'center', marginTop: '8px' }}>
+            <button onClick={onExport} disabled={!slots.best} style={smallButton()}>{t.common.export}</button>
+            <button onClick={() => fileInput.current?.click()} style={smallButton()}>{t.common.import}</button>
+            {slots.rival && (
+                <button onClick={onClearRival} style={smallButton()}>{t.ghosts.clearRival}</button>
+            )}
+            <input
+                ref={fileInput}
+                type="file"
+                accept="application/json,.json"
+                style={{ display: 'none' }}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                    const file = e.target.files?.[0];
+                    if (file) onImport(file);
+                    e.target.value = '';
+                }}
+            />
+        </div>
+        {importError && (
+            <div style={{ marginTop: '8px', fontSize: '12px', color: '#E74C3C' }}>{importError}</div>
+        )}
+    </div>
+  );
+}
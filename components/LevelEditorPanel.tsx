@@ -0,0 +1,118 @@
+import React, { useRef } from 'react';
+import { OBSTACLE_TYPES, ObstacleType } from '../game/constants';
+import { MAX_GAP, MIN_GAP, PlacedObstacle } from '../game/level';
+import { useStrings } from '../i18n/useStrings';
+import { smallButton } from './buttonStyles';
+
+interface LevelEditorPanelProps {
+  name: string;
+  obstacleCount: number;
+  selected: PlacedObstacle | null;
+  importError: string | null;
+  onNameChange: (name: string) => void;
+  onSelectedChange: (patch: Partial<PlacedObstacle>) => void;
+  onDeleteSelected: () => void;
+  onScroll: (delta: number) => void;
+  onPlaytest: () => void;
+  onPlay: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+export default function LevelEditorPanel({
+  name, obstacleCount, selected, importError,
+  onNameChange, onSelectedChange, onDeleteSelected, onScroll,
+  onPlaytest, onPlay, onExport, onImport, onClear, onClose
+}: LevelEditorPanelProps) {
+  const t = useStrings();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  return (
+    <div style={{
+        position: 'absolute',
+        bottom: '20px',
+        backgroundColor: 'rgba(255,255,255,0.95)',
+        padding: '12px 16px',
+        borderRadius: '12px',
+        textAlign: 'center',
+        boxShadow: '0 10px 30px rgba(0,0,0,0.3)',
+        border: '3px solid #D35400',
+        maxWidth: '90%'
+    }}>
+        <div style={{ display: 'flex', gap: '6px', justifyContent: 'center', alignItems: 'center', flexWrap: 'wrap' }}>
+            <span style={{ fontWeight: 'bold', color: '#D35400' }}>{t.levelEditor.title}</span>
+            <input
+                type="text"
+                maxLength={24}
+                value={name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => onNameChange(e.target.value)}
+                style={{ padding: '4px 8px', fontSize: '12px', borderRadius: '4px', border: '1px solid #ddd', width: '140px' }}
+            />
+            <span style={{ fontSize: '12px', color: '#999' }}>{t.levelEditor.obstacles(obstacleCount)}</span>
+            <button onClick={() => onScroll(-400)} style={smallButton()}>◀</button>
+            <button onClick={() => onScroll(400)} style={smallButton()}>▶</button>
+        </div>
+
+        {selected ? (
+            <div style={{ display: 'flex', gap: '8px', justifyContent: 'center', alignItems: 'center', flexWrap: 'wrap', marginTop: '8px', fontSize: '12px', color: '#555' }}>
+                <label>
+                    {t.levelEditor.gap}{' '}
+                    <input
+                        type="range"
+                        min={MIN_GAP}
+                        max={MAX_GAP}
+                        step={5}
+                        value={selected.gap}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => onSelectedChange({ gap: Number(e.target.value) })}
+                    />
+                    {' '}{selected.gap}
+                </label>
+                <select
+                    value={selected.type || 'PIPE'}
+                    onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onSelectedChange({ type: e.target.value as ObstacleType })}
+                >
+                    {OBSTACLE_TYPES.map(type => <option key={type} value={type}>{t.obstacles[type]}</option>)}
+                </select>
+                <input
+                    type="text"
+                    placeholder={t.levelEditor.toastPlaceholder}
+                    maxLength={40}
+                    value={selected.toast || ''}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => onSelectedChange({ toast: e.target.value || undefined })}
+                    style={{ padding: '4px 8px', fontSize: '12px', borderRadius: '4px', border: '1px solid #ddd', width: '170px' }}
+                />
+                <button onClick={onDeleteSelected} style={{ ...smallButton(), color: '#E74C3C' }}>{t.common.delete}</button>
+            </div>
+        ) : (
+            <div style={{ marginTop: '8px', fontSize: '12px', color: '#666' }}>
+                {t.levelEditor.help}
+            </div>
+        )}
+
+        <div style={{ display: 'flex', gap: '6px', justifyContent: 'center', marginTop: '8px', flexWrap: 'wrap' }}>
+            <button onClick={onPlaytest} disabled={obstacleCount === 0} style={smallButton('#27AE60')}>{t.levelEditor.test}</button>
+            <button onClick={onPlay} disabled={obstacleCount === 0} style={smallButton()}>{t.levelEditor.play}</button>
+            <button onClick={onExport} style={smallButton()}>{t.common.export}</button>
+            <button onClick={() => fileInput.current?.click()} style={smallButton()}>{t.common.import}</button>
+            <button onClick={onClear} style={smallButton()}>{t.levelEditor.clear}</button>
+            <button onClick={onClose} style={smallButton()}>{t.common.back}</button>
+            <input
+                ref={fileInput}
+                type="file"
+                accept="application/json,.json"
+                style={{ display: 'none' }}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                    const file = e.target.files?.[0];
+                    if (file) onImport(file);
+                    e.target.value = '';
+                }}
+            />
+        </div>
+        {importError && (
+            <div style={{ marginTop: '8px', fontSize: '12px', color: '#E74C3C' }}>{importError}</div>
+        )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { DEFAULT_PARTY, MAX_CHEERS, MAX_CHEER_LENGTH, MAX_PARTY_NAME_LENGTH, PartyConfig, isFlagStyle, sanitizeParty } from '../game/party';
+import { FLAG_STYLES } from '../game/skins';
+import { partyLink } from '../storage/party';
+import { useStrings } from '../i18n/useStrings';
+import { smallButton } from './buttonStyles';
+
+interface PartyPanelProps {
+  party: PartyConfig;
+  onSave: (party: PartyConfig) => void;
+  onClose: () => void;
+}
+
+const field = { padding: '4px 8px', fontSize: '14px', borderRadius: '4px', border: '1px solid #ddd', fontFamily: 'inherit' };
+
+// Shown to the player as the P1 colour when no body colour is picked
+const PLAYER_COLOR = '#E74C3C';
+
+type CopyState = 'IDLE' | 'COPIED' | 'FAILED';
+
+export default function PartyPanel({ party, onSave, onClose }: PartyPanelProps) {
+  const t = useStrings();
+  const [name, setName] = useState(party.name);
+  const [friend, setFriend] = useState(party.friend);
+  const [flag, setFlag] = useState(party.flag);
+  const [body, setBody] = useState<string | null>(party.body);
+  const [cheers, setCheers] = useState(party.cheers.join('\n'));
+  const [copy, setCopy] = useState<CopyState>('IDLE');
+
+  // What would be saved, with the same validation a link goes through
+  const draft = (): PartyConfig => sanitizeParty({ name, friend, flag, body, cheers: cheers.split('\n') });
+  const link = partyLink(draft(), window.location.origin + window.location.pathname);
+
+  // A copied link is stale as soon as anything changes
+  useEffect(() => setCopy('IDLE'), [name, friend, flag, body, cheers]);
+
+  const copyLink = () => {
+      if (!navigator.clipboard) {
+          setCopy('FAILED');
+          return;
+      }
+      navigator.clipboard.writeText(link).then(() => setCopy('COPIED'), () => setCopy('FAILED'));
+  };
+
+  const reset = () => {
+      setName(DEFAULT_PARTY.name);
+      setFriend(DEFAULT_PARTY.friend);
+      setFlag(DEFAULT_PARTY.flag);
+      setBody(DEFAULT_PARTY.body);
+      setCheers('');
+  };
+
+  const row = { display: 'flex', alignItems: 'center', gap: '10px', color: '#555', fontSize: '14px' };
+  const label = { minWidth: '90px', textAlign: 'left' as const, fontWeight: 'bold' };
+
+  return (
+    <div style={{ minWidth: '340px' }}>
+        <h3 style={{ margin: '0 0 10px 0', color: '#8E44AD', fontSize: '20px' }}>{t.party.title}</h3>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            <label style={row}>
+                <span style={label}>{t.party.name}</span>
+                <input type="text" maxLength={MAX_PARTY_NAME_LENGTH} value={name} onChange={e => setName(e.target.value)} style={{ ...field, flex: 1 }} />
+            </label>
+            <label style={row}>
+                <span style={label}>{t.party.friend}</span>
+                <input type="text" maxLength={MAX_PARTY_NAME_LENGTH} value={friend} onChange={e => setFriend(e.target.value)} style={{ ...field, flex: 1 }} />
+            </label>
+            <label style={row}>
+                <span style={label}>{t.party.flag}</span>
+                <select value={flag} onChange={e => isFlagStyle(e.target.value) && setFlag(e.target.value)} style={{ ...field, flex: 1 }}>
+                    {FLAG_STYLES.map(style => <option key={style} value={style}>{t.flags[style]}</option>)}
+                </select>
+            </label>
+            <div style={row}>
+                <span style={label}>{t.party.body}</span>
+                <input type="color" value={body || PLAYER_COLOR} onChange={e => setBody(e.target.value.toUpperCase())} disabled={!body} />
+                <label style={{ fontSize: '12px' }}>
+                    <input type="checkbox" checked={!body} onChange={() => setBody(body ? null : PLAYER_COLOR)} />
+                    {' '}{t.party.playerColor}
+                </label>
+            </div>
+            <div style={{ ...label, fontSize: '12px', marginTop: '4px' }}>{t.party.cheers(MAX_CHEERS)}</div>
+            <textarea
+                rows={4}
+                value={cheers}
+                onChange={e => setCheers(e.target.value.split('\n').slice(0, MAX_CHEERS).map(line => line.slice(0, MAX_CHEER_LENGTH)).join('\n'))}
+                style={{ ...field, resize: 'vertical' }}
+            />
+        </div>
+
+        {copy === 'FAILED' && (
+            <div style={{ marginTop: '10px' }}>
+                <div style={{ fontSize: '12px', color: '#999' }}>{t.party.copyFailed}</div>
+                <input type="text" readOnly value={link} onFocus={e => e.target.select()} style={{ ...field, fontSize: '12px', width: '100%', boxSizing: 'border-box' }} />
+            </div>
+        )}
+
+        <div style={{ display: 'flex', gap: '6px', justifyContent: 'center', marginTop: '15px', flexWrap: 'wrap' }}>
+            <button onClick={() => onSave(draft())} style={smallButton('#27AE60')}>{t.common.save}</button>
+            <button onClick={copyLink} style={smallButton()}>{copy === 'COPIED' ? t.party.copied : t.party.copyLink}</button>
+            <button onClick={reset} style={smallButton()}>{t.party.reset}</button>
+            <button onClick={onClose} style={smallButton()}>{t.common.back}</button>
+        </div>
+    </div>
+  );
+}
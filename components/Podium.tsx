@@ -0,0 +1,65 @@
+import React from 'react';
+import { Tournament, standings } from '../game/tournament';
+import TournamentStandings from './TournamentStandings';
+import { useStrings } from '../i18n/useStrings';
+import { bigButton } from './buttonStyles';
+
+interface PodiumProps {
+  tournament: Tournament;
+  onNewTournament: () => void;
+  onMenu: () => void;
+}
+
+// Stands ordered 2nd, 1st, 3rd like a real podium
+const STANDS = [
+  { place: 1, height: 70, color: '#BDC3C7', medal: '🥈' },
+  { place: 0, height: 100, color: '#F1C40F', medal: '🥇' },
+  { place: 2, height: 50, color: '#CD7F32', medal: '🥉' },
+];
+
+export default function Podium({ tournament, onNewTournament, onMenu }: PodiumProps) {
+  const t = useStrings();
+  const rows = standings(tournament);
+
+  return (
+    <>
+        <h2 style={{ fontSize: '40px', color: '#f1c40f', margin: '0 0 20px 0', textShadow: '2px 2px 0 #000' }}>{t.tournament.finished}</h2>
+        <div style={{ display: 'flex', alignItems: 'flex-end', justifyContent: 'center', gap: '8px', marginBottom: '20px' }}>
+            {STANDS.filter(s => rows[s.place]).map(s => (
+                <div key={s.place} style={{ width: '110px', textAlign: 'center' }}>
+                    <div style={{ fontSize: '28px' }}>{s.medal}</div>
+                    <div style={{ fontWeight: 'bold', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{rows[s.place].name}</div>
+                    <div style={{ fontSize: '14px', color: '#ccc' }}>{t.common.points(rows[s.place].total)}</div>
+                    <div style={{
+                        height: `${s.height}px`,
+                        backgroundColor: s.color,
+                        borderRadius: '4px 4px 0 0',
+                        marginTop: '6px',
+                        color: '#333',
+                        fontSize: '28px',
+                        fontWeight: 'bold',
+                        lineHeight: `${s.height}px`
+                    }}>
+                        {s.place + 1}
+                    </div>
+                </div>
+            ))}
+        </div>
+        <TournamentStandings tournament={tournament} dark />
+        <div style={{ display: 'flex', gap: '10px', justifyContent: 'center', marginTop: '20px' }}>
+            <button
+                onClick={onNewTournament}
+                style={{ ...bigButton('#27AE60', '#219150'), padding: '12px 24px', fontSize: '18px' }}
+            >
+                {t.tournament.newTournament}
+            </button>
+            <button
+                onClick={onMenu}
+                style={{ ...bigButton('#7f8c8d', '#606c6d'), padding: '12px 24px', fontSize: '18px' }}
+            >
+                {t.tournament.menu}
+            </button>
+        </div>
+    </>
+  );
+}
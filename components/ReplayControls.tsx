@@ -0,0 +1,70 @@
+import React from 'react';
+import { TICK_MS } from '../game/simulation';
+import { useStrings } from '../i18n/useStrings';
+import { menuButton } from './buttonStyles';
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+interface ReplayControlsProps {
+  tick: number;
+  totalTicks: number;
+  paused: boolean;
+  speed: number;
+  onTogglePause: () => void;
+  onSeek: (tick: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+}
+
+const formatTime = (ticks: number) => {
+  const seconds = Math.floor((ticks * TICK_MS) / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const buttonStyle = (active: boolean) => ({ ...menuButton(active && '#E74C3C'), padding: '6px 10px' });
+
+export default function ReplayControls({ tick, totalTicks, paused, speed, onTogglePause, onSeek, onSpeedChange, onExit }: ReplayControlsProps) {
+  const t = useStrings();
+  return (
+    <div style={{
+        position: 'absolute',
+        bottom: 20,
+        left: '50%',
+        transform: 'translateX(-50%)',
+        width: 'min(90%, 700px)',
+        backgroundColor: 'rgba(0,0,0,0.8)',
+        padding: '12px 16px',
+        borderRadius: '12px',
+        color: 'white',
+        fontFamily: '"Courier New", monospace',
+        fontWeight: 'bold'
+    }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+            <button onClick={onTogglePause} style={buttonStyle(false)}>
+                {paused ? '▶' : '❚❚'}
+            </button>
+            <input
+                type="range"
+                min={0}
+                max={totalTicks}
+                value={tick}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => onSeek(Number(e.target.value))}
+                style={{ flex: 1 }}
+            />
+            <span style={{ minWidth: '100px', textAlign: 'right' }}>
+                {formatTime(tick)} / {formatTime(totalTicks)}
+            </span>
+        </div>
+        <div style={{ display: 'flex', gap: '6px', justifyContent: 'center', marginTop: '10px' }}>
+            {REPLAY_SPEEDS.map(s => (
+                <button key={s} onClick={() => onSpeedChange(s)} style={buttonStyle(speed === s)}>
+                    {s}x
+                </button>
+            ))}
+            <button onClick={onExit} style={{ ...buttonStyle(false), marginLeft: '20px' }}>
+                {t.replay.close}
+            </button>
+        </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import React, { useRef, useState } from 'react';
+import { Difficulty } from '../game/constants';
+import { difficultyName } from '../i18n/locale';
+import { useStrings } from '../i18n/useStrings';
+import { HighScoreEntry, TOP_LIST_SIZE } from '../storage/highScores';
+import { smallButton } from './buttonStyles';
+
+export type ScoreboardTab = 'LOCAL' | 'ALL' | 'WEEK';
+
+const TABS: ScoreboardTab[] = ['LOCAL', 'ALL', 'WEEK'];
+
+interface ScoreboardProps {
+  difficulty: Difficulty;
+  tab: ScoreboardTab;
+  entries: HighScoreEntry[];
+  // Status line under the list: loading, offline fallback, queued submissions
+  notice: string | null;
+  importError: string | null;
+  serverUrl: string;
+  onTabChange: (tab: ScoreboardTab) => void;
+  onServerUrlChange: (url: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+const tabStyle = (active: boolean) => smallButton(active && '#D35400');
+
+export default function Scoreboard({ difficulty, tab, entries, notice, importError, serverUrl, onTabChange, onServerUrlChange, onExport, onImport }: ScoreboardProps) {
+  const t = useStrings();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [urlDraft, setUrlDraft] = useState(serverUrl);
+
+  return (
+    <div style={{
+        marginTop: '15px',
+        background: '#f9f9f9',
+        padding: '15px',
+        borderRadius: '8px',
+        border: '1px solid #ddd'
+    }}>
+        <div style={{ display: 'flex', gap: '6px', justifyContent: 'center', marginBottom: '10px' }}>
+            {TABS.map(id => (
+                <button key={id} onClick={() => onTabChange(id)} style={tabStyle(tab === id)}>{t.scoreboard.tabs[id]}</button>
+            ))}
+        </div>
+        <h3 style={{ margin: '0 0 10px 0', color: '#D35400', fontSize: '20px' }}>
+            {tab === 'LOCAL' ? t.scoreboard.localTitle(TOP_LIST_SIZE) : tab === 'ALL' ? t.scoreboard.globalTitle : t.scoreboard.weekTitle} ({difficultyName(t, difficulty)}) 🏆
+        </h3>
+        {entries.length === 0 ? (
+            <div style={{color: '#999', fontStyle: 'italic'}}>{t.scoreboard.empty}</div>
+        ) : (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                {entries.map((e, i) => (
+                    <div key={`${e.date}-${i}`} style={{
+                        display: 'flex',
+                        justifyContent: 'space-between',
+                        gap: '10px',
+                        width: '320px',
+                        margin: '0 auto',
+                        fontWeight: i === 0 ? 'bold' : 'normal',
+                        color: i === 0 ? '#E67E22' : '#555',
+                        borderBottom: i < entries.length - 1 ? '1px dashed #eee' : 'none',
+                        paddingBottom: i < entries.length - 1 ? '4px' : '0'
+                    }}>
+                        <span>#{i+1}</span>
+                        <span style={{ flex: 1, textAlign: 'left', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                            {e.name}{e.backwardBirthdays > 0 ? ` ${'🎂'.repeat(Math.min(e.backwardBirthdays, 3))}` : ''}{e.mode === 'GHOST' ? ' 👻' : e.mode === 'TOURNAMENT' ? ' 🏆' : ''}
+                        </span>
+                        <span>{t.common.points(e.score)}</span>
+                        <span style={{ color: '#999', fontSize: '12px', minWidth: '70px', textAlign: 'right' }}>
+                            {e.date ? new Date(e.date).toLocaleDateString() : '—'}
+                        </span>
+                    </div>
+                ))}
+            </div>
+        )}
+        {notice && (
+            <div style={{ marginTop: '8px', fontSize: '12px', color: '#999', fontStyle: 'italic' }}>{notice}</div>
+        )}
+        {tab !== 'LOCAL' && (
+            <form
+                onSubmit={(ev: React.FormEvent) => {
+                    ev.preventDefault();
+                    onServerUrlChange(urlDraft);
+                }}
+                style={{ display: 'flex', gap: '6px', justifyContent: 'center', marginTop: '10px' }}
+            >
+                <input
+                    type="text"
+                    placeholder="http://192.168.1.10:8787"
+                    value={urlDraft}
+                    onChange={(ev: React.ChangeEvent<HTMLInputElement>) => setUrlDraft(ev.target.value)}
+                    style={{ padding: '4px 8px', fontSize: '12px', borderRadius: '4px', border: '1px solid #ddd', width: '200px' }}
+                />
+                <button type="submit" style={smallButton()}>{t.scoreboard.saveServer}</button>
+            </form>
+        )}
+        <div style={{ display: tab === 'LOCAL' ? 'flex' : 'none', gap: '6px', justifyContent: 'center', marginTop: '10px' }}>
+            <button onClick={onExport} style={smallButton()}>{t.common.export}</button>
+            <button onClick={() => fileInput.current?.click()} style={smallButton()}>{t.common.import}</button>
+            <input
+                ref={fileInput}
+                type="file"
+                accept="application/json,.json"
+                style={{ display: 'none' }}
+                onChange={(ev: React.ChangeEvent<HTMLInputElement>) => {
+                    const file = ev.target.files?.[0];
+                    if (file) onImport(file);
+                    ev.target.value = '';
+                }}
+            />
+        </div>
+        {importError && (
+            <div style={{ marginTop: '8px', fontSize: '12px', color: '#E74C3C' }}>{importError}</div>
+        )}
+    </div>
+  );
+}
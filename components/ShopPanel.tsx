@@ -0,0 +1,72 @@
+import React from 'react';
+import { BIRD_SKINS, PIPE_THEMES } from '../game/skins';
+import { ShopCategory, ShopState, isOwned } from '../storage/shop';
+import { useStrings } from '../i18n/useStrings';
+import { smallButton } from './buttonStyles';
+
+interface ShopPanelProps {
+  shop: ShopState;
+  onBuy: (category: ShopCategory, id: string) => void;
+  onEquip: (category: ShopCategory, id: string) => void;
+  onClose: () => void;
+}
+
+const HIGHLIGHT = '#27AE60';
+
+interface ShopItem {
+  id: string;
+  name: string;
+  price: number;
+  swatch: string;
+}
+
+function ShopRow({ item, category, shop, onBuy, onEquip }: { item: ShopItem; category: ShopCategory } & Omit<ShopPanelProps, 'onClose'>) {
+  const t = useStrings();
+  const owned = isOwned(shop, category, item.id);
+  const equipped = (category === 'SKIN' ? shop.skin : shop.pipeTheme) === item.id;
+  return (
+    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '10px', color: '#555' }}>
+        <span style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <span style={{ width: '16px', height: '16px', borderRadius: '4px', border: '1px solid #333', backgroundColor: item.swatch }} />
+            {item.name}
+        </span>
+        {equipped ? (
+            <button disabled style={smallButton(HIGHLIGHT)}>{t.shop.equipped}</button>
+        ) : owned ? (
+            <button onClick={() => onEquip(category, item.id)} style={smallButton()}>{t.shop.equip}</button>
+        ) : (
+            <button onClick={() => onBuy(category, item.id)} disabled={shop.coins < item.price} style={{ ...smallButton(), opacity: shop.coins < item.price ? 0.5 : 1 }}>
+                🪙 {item.price}
+            </button>
+        )}
+    </div>
+  );
+}
+
+export default function ShopPanel({ shop, onBuy, onEquip, onClose }: ShopPanelProps) {
+  const t = useStrings();
+  // Skins that keep the bird's own colour show player one's red
+  const skins: ShopItem[] = BIRD_SKINS.map(s => ({ id: s.id, name: t.skins[s.id] ?? s.id, price: s.price, swatch: s.body || '#E74C3C' }));
+  const themes: ShopItem[] = PIPE_THEMES.map(p => ({ id: p.id, name: t.pipeThemes[p.id] ?? p.id, price: p.price, swatch: p.colors[1] }));
+
+  return (
+    <div style={{ minWidth: '320px' }}>
+        <h3 style={{ margin: '0 0 10px 0', color: '#D35400', fontSize: '20px' }}>{t.shop.title} · 🪙 {shop.coins}</h3>
+        <div style={{ fontSize: '12px', color: '#666', marginBottom: '10px' }}>
+            {t.shop.help}
+        </div>
+
+        <p style={{ margin: '0 0 6px 0', fontWeight: 'bold', color: '#555' }}>{t.shop.skins}</p>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            {skins.map(item => <ShopRow key={item.id} item={item} category="SKIN" shop={shop} onBuy={onBuy} onEquip={onEquip} />)}
+        </div>
+
+        <p style={{ margin: '12px 0 6px 0', fontWeight: 'bold', color: '#555' }}>{t.shop.pipes}</p>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+            {themes.map(item => <ShopRow key={item.id} item={item} category="PIPES" shop={shop} onBuy={onBuy} onEquip={onEquip} />)}
+        </div>
+
+        <button onClick={onClose} style={{ ...smallButton(), marginTop: '15px' }}>{t.common.back}</button>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Difficulty } from '../game/constants';
+import { MAX_GUESTS, MAX_ROUNDS, MIN_GUESTS, Tournament, currentTurn, guestNames } from '../game/tournament';
+import { difficultyName } from '../i18n/locale';
+import { useStrings } from '../i18n/useStrings';
+import TournamentStandings from './TournamentStandings';
+import { smallButton } from './buttonStyles';
+
+interface TournamentPanelProps {
+  tournament: Tournament | null;
+  difficulty: Difficulty;
+  onCreate: (names: string[], rounds: number) => void;
+  onAbort: () => void;
+  onClose: () => void;
+}
+
+const HIGHLIGHT = '#D35400';
+
+const panelStyle = {
+  marginTop: '15px',
+  background: '#f9f9f9',
+  padding: '15px',
+  borderRadius: '8px',
+  border: '1px solid #ddd'
+};
+
+export default function TournamentPanel({ tournament, difficulty, onCreate, onAbort, onClose }: TournamentPanelProps) {
+  const t = useStrings();
+  const [names, setNames] = useState<string[]>(['', '']);
+  const [rounds, setRounds] = useState(1);
+
+  if (tournament) {
+    const turn = currentTurn(tournament);
+    return (
+      <div style={panelStyle}>
+          <h3 style={{ margin: '0 0 10px 0', color: '#D35400', fontSize: '20px' }}>{t.tournament.title(difficultyName(t, tournament.difficulty))}</h3>
+          {turn && (
+              <div style={{ marginBottom: '10px', color: '#555' }}>
+                  {t.tournament.round(turn.round + 1, tournament.rounds)} · {t.tournament.next}: <b>{tournament.names[turn.guest]}</b>
+              </div>
+          )}
+          <TournamentStandings tournament={tournament} />
+          <button onClick={onAbort} style={{ ...smallButton(), marginTop: '10px' }}>{t.tournament.abort}</button>
+      </div>
+    );
+  }
+
+  const filled = guestNames(names);
+  const updateName = (index: number, value: string) => setNames(names.map((n, i) => i === index ? value : n));
+
+  return (
+    <div style={panelStyle}>
+        <h3 style={{ margin: '0 0 10px 0', color: '#D35400', fontSize: '20px' }}>{t.tournament.newTitle(difficultyName(t, difficulty))}</h3>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', alignItems: 'center' }}>
+            {names.map((name, i) => (
+                <div key={i} style={{ display: 'flex', gap: '6px' }}>
+                    <input
+                        type="text"
+                        placeholder={t.tournament.guest(i + 1)}
+                        maxLength={16}
+                        value={name}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateName(i, e.target.value)}
+                        style={{ padding: '4px 8px', borderRadius: '4px', border: '1px solid #ddd', width: '180px' }}
+                    />
+                    <button onClick={() => setNames(names.filter((_, j) => j !== i))} disabled={names.length <= MIN_GUESTS} style={smallButton()}>✕</button>
+                </div>
+            ))}
+            {names.length < MAX_GUESTS && (
+                <button onClick={() => setNames([...names, ''])} style={smallButton()}>{t.tournament.addGuest}</button>
+            )}
+        </div>
+        <div style={{ display: 'flex', gap: '6px', justifyContent: 'center', alignItems: 'center', marginTop: '10px', color: '#555', fontSize: '12px' }}>
+            {t.tournament.rounds}
+            {Array.from({ length: MAX_ROUNDS }, (_, i) => i + 1).map(r => (
+                <button key={r} onClick={() => setRounds(r)} style={smallButton(rounds === r && HIGHLIGHT)}>{r}</button>
+            ))}
+        </div>
+        <div style={{ display: 'flex', gap: '6px', justifyContent: 'center', marginTop: '12px' }}>
+            <button onClick={() => onCreate(filled, rounds)} disabled={filled.length < MIN_GUESTS} style={smallButton(filled.length >= MIN_GUESTS && HIGHLIGHT)}>
+                {t.tournament.start}
+            </button>
+            <button onClick={onClose} style={smallButton()}>{t.common.back}</button>
+        </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Tournament, currentTurn, standings } from '../game/tournament';
+
+interface TournamentStandingsProps {
+  tournament: Tournament;
+  dark?: boolean;
+}
+
+export default function TournamentStandings({ tournament, dark = false }: TournamentStandingsProps) {
+  const rows = standings(tournament);
+  const turn = currentTurn(tournament);
+  const nextName = turn ? tournament.names[turn.guest] : null;
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', margin: '0 auto', width: '300px' }}>
+        {rows.map((row, i) => (
+            <div key={row.name + i} style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                gap: '10px',
+                fontWeight: row.name === nextName ? 'bold' : 'normal',
+                color: i === 0 && row.played > 0 ? '#E67E22' : dark ? '#fff' : '#555',
+                borderBottom: `1px dashed ${dark ? '#555' : '#eee'}`,
+                paddingBottom: '3px'
+            }}>
+                <span>#{i + 1}</span>
+                <span style={{ flex: 1, textAlign: 'left' }}>
+                    {row.name}{row.name === nextName ? ' ◀' : ''}
+                </span>
+                <span style={{ fontSize: '12px', color: '#999' }}>{row.played}/{tournament.rounds}</span>
+                <span style={{ minWidth: '50px', textAlign: 'right' }}>{row.total}</span>
+            </div>
+        ))}
+    </div>
+  );
+}
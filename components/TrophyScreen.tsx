@@ -0,0 +1,51 @@
+import React from 'react';
+import { ACHIEVEMENTS } from '../game/achievements';
+import { UnlockedAchievements } from '../storage/achievements';
+import { useStrings } from '../i18n/useStrings';
+import { smallButton } from './buttonStyles';
+
+interface TrophyScreenProps {
+  unlocked: UnlockedAchievements;
+  onClose: () => void;
+}
+
+export default function TrophyScreen({ unlocked, onClose }: TrophyScreenProps) {
+  const t = useStrings();
+  const count = ACHIEVEMENTS.filter(a => unlocked[a.id]).length;
+
+  return (
+    <div style={{ minWidth: '340px' }}>
+        <h3 style={{ margin: '0 0 10px 0', color: '#D35400', fontSize: '20px' }}>{t.trophies.title} ({count}/{ACHIEVEMENTS.length})</h3>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', textAlign: 'left' }}>
+            {ACHIEVEMENTS.map(a => {
+                const date = unlocked[a.id];
+                return (
+                    <div key={a.id} style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '10px',
+                        padding: '6px 10px',
+                        borderRadius: '8px',
+                        background: date ? '#FEF9E7' : '#f4f4f4',
+                        border: date ? '2px solid #F1C40F' : '2px solid #ddd',
+                        opacity: date ? 1 : 0.6
+                    }}>
+                        <span style={{ fontSize: '24px', filter: date ? 'none' : 'grayscale(1)' }}>{date ? a.icon : '🔒'}</span>
+                        <span style={{ flex: 1 }}>
+                            <div style={{ fontWeight: 'bold', color: '#555' }}>{a.secret && !date ? '???' : t.achievements[a.id].name}</div>
+                            <div style={{ fontSize: '12px', color: '#777' }}>{a.secret && !date ? t.trophies.secret : t.achievements[a.id].description}</div>
+                        </span>
+                        {date && <span style={{ fontSize: '12px', color: '#999' }}>{new Date(date).toLocaleDateString()}</span>}
+                    </div>
+                );
+            })}
+        </div>
+        <button
+            onClick={onClose}
+            style={{ ...smallButton(), marginTop: '15px' }}
+        >
+            {t.common.back}
+        </button>
+    </div>
+  );
+}
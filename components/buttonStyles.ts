@@ -0,0 +1,45 @@
+// --- Button Styles ---
+// The grey buttons the menus and panels share. Passing a colour highlights
+// one, white on that colour, for the selected or primary choice.
+
+export const menuButton = (highlight?: string | false) => ({
+  padding: '8px 16px',
+  backgroundColor: highlight || '#eee',
+  color: highlight ? 'white' : '#555',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontWeight: 'bold'
+});
+
+// One of the buttons stacked down the middle of the START menu
+export const stackedMenuButton = {
+  ...menuButton(),
+  marginTop: '10px',
+  display: 'block',
+  marginLeft: 'auto',
+  marginRight: 'auto'
+};
+
+// The smaller buttons inside panels
+export const smallButton = (highlight?: string | false) => ({
+  ...menuButton(highlight),
+  padding: '4px 10px',
+  fontSize: '12px'
+});
+
+// A bare icon, like the ▶ and ✕ next to a list entry
+export const iconButton = { border: 'none', background: 'none', cursor: 'pointer', fontSize: '16px' };
+
+// The big coloured buttons that start, resume or leave a game
+export const bigButton = (color: string, shadow: string) => ({
+  padding: '15px 40px',
+  fontSize: '24px',
+  backgroundColor: color,
+  color: 'white',
+  border: 'none',
+  borderRadius: '8px',
+  cursor: 'pointer',
+  boxShadow: `0 4px 0 ${shadow}`,
+  fontWeight: 'bold'
+});
@@ -0,0 +1,22 @@
+// --- Menu Focus Navigation ---
+// Moves keyboard focus between the controls of an overlay, for arrow keys and gamepads.
+
+const FOCUSABLE = 'button:not([disabled]), input:not([disabled]), select:not([disabled])';
+
+export function moveMenuFocus(container: HTMLElement | null, delta: number) {
+  if (!container) return;
+  const items = Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE))
+    .filter(el => el.offsetParent !== null);
+  if (items.length === 0) return;
+
+  const current = items.indexOf(document.activeElement as HTMLElement);
+  const next = current === -1
+    ? (delta > 0 ? 0 : items.length - 1)
+    : (current + delta + items.length) % items.length;
+  items[next].focus();
+}
+
+// Whether a menu control currently has keyboard focus
+export function hasMenuFocus(container: HTMLElement | null): boolean {
+  return !!container && container !== document.activeElement && container.contains(document.activeElement);
+}
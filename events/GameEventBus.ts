@@ -0,0 +1,103 @@
+import { Difficulty } from '../game/constants';
+import { SimEvent } from '../game/simulation';
+
+// --- Game Event Bus ---
+// Everything that happens in a run is announced here, and sound, particles,
+// toasts, stats and whatever comes next subscribe to what they care about
+// instead of being called directly. Simulation events are forwarded as they
+// are (also while watching a replay); the rest come from the game flow.
+// Pages embedding the game can listen too, see `bridgeToWindow`.
+
+type SimEventPayloads = {
+  [K in SimEvent['type']]: Omit<Extract<SimEvent, { type: K }>, 'type'>;
+};
+
+export interface GameEventMap extends SimEventPayloads {
+  gameStart: {
+    difficulty: Difficulty;
+    seed: number;
+    birds: number;
+    level: string | null; // Name of the level, null for random pipes
+    daily: boolean;
+  };
+  gameOver: {
+    difficulty: Difficulty;
+    scores: number[]; // Per bird
+    backwardBirthdays: number[];
+    coins: number[];
+    ticks: number;
+    completed: boolean; // A level was flown to the end
+  };
+  cakeModeUnlocked: {};
+  rewind: {
+    reason: 'CRASH' | 'HELD'; // A crash in rewind practice, or the rewind key
+    count: number; // Rewinds so far this run
+  };
+}
+
+export type GameEventType = keyof GameEventMap;
+
+export type GameEventOf<K extends GameEventType> = { type: K } & GameEventMap[K];
+
+export type GameEvent = { [K in GameEventType]: GameEventOf<K> }[GameEventType];
+
+export type GameEventListener<K extends GameEventType> = (event: GameEventOf<K>) => void;
+
+export class GameEventBus {
+  listeners = new Map<GameEventType, Set<(event: GameEvent) => void>>();
+  anyListeners = new Set<(event: GameEvent) => void>();
+
+  on<K extends GameEventType>(type: K, listener: GameEventListener<K>) {
+    const wrapped = listener as (event: GameEvent) => void;
+    if (!this.listeners.has(type)) this.listeners.set(type, new Set());
+    this.listeners.get(type)!.add(wrapped);
+    return () => {
+      this.listeners.get(type)?.delete(wrapped);
+    };
+  }
+
+  // Every event, e.g. for logging or forwarding
+  onAny(listener: (event: GameEvent) => void) {
+    this.anyListeners.add(listener);
+    return () => {
+      this.anyListeners.delete(listener);
+    };
+  }
+
+  emit<K extends GameEventType>(type: K, payload: GameEventMap[K]) {
+    this.dispatch({ type, ...payload } as GameEvent);
+  }
+
+  emitSimEvent(event: SimEvent) {
+    this.dispatch(event);
+  }
+
+  dispatch(event: GameEvent) {
+    // A throwing listener must not take the game loop down with it
+    const call = (listener: (event: GameEvent) => void) => {
+      try {
+        listener(event);
+      } catch(e) {
+        console.error(e);
+      }
+    };
+    this.listeners.get(event.type)?.forEach(call);
+    this.anyListeners.forEach(call);
+  }
+}
+
+export const gameEvents = new GameEventBus();
+
+export const WINDOW_EVENT_PREFIX = 'flappy-nichlas:';
+
+// Re-announces every event as a DOM CustomEvent on `window` (e.g.
+// 'flappy-nichlas:pipePassed' with the event as `detail`) and, when running
+// inside an iframe, as a postMessage to the parent page.
+export function bridgeToWindow(bus: GameEventBus) {
+  return bus.onAny(event => {
+    window.dispatchEvent(new CustomEvent(WINDOW_EVENT_PREFIX + event.type, { detail: event }));
+    if (window.parent !== window) {
+      window.parent.postMessage({ source: 'flappy-nichlas', event }, '*');
+    }
+  });
+}
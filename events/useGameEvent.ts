@@ -0,0 +1,10 @@
+import { useEffect, useRef } from 'react';
+import { GameEventListener, GameEventType, gameEvents } from './GameEventBus';
+
+// Subscribes for the lifetime of the component. The handler is read through a
+// ref, so it always sees the latest state without resubscribing every render.
+export function useGameEvent<K extends GameEventType>(type: K, handler: GameEventListener<K>) {
+  const latest = useRef(handler);
+  latest.current = handler;
+  useEffect(() => gameEvents.on(type, event => latest.current(event)), [type]);
+}
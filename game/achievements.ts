@@ -0,0 +1,96 @@
+import { SimEvent, SimState, TICK_MS } from './simulation';
+
+// --- Achievements ---
+// A registry of things worth remembering. Most are checked against the live
+// simulation after every tick, from its state plus a few counters that only
+// the tick's events can tell; the rest are unlocked directly by the game
+// (see `unlockedBy`).
+
+export type AchievementId =
+  | 'FIRST_10'
+  | 'BACKWARD_5'
+  | 'DOUBLE_BIRTHDAY'
+  | 'HARD_50'
+  | 'SURVIVE_60'
+  | 'SHIELD_SAVE'
+  | 'COINS_10'
+  | 'LEVEL_COMPLETE'
+  | 'CAKE_UNLOCKED';
+
+// Counted per bird from the events of one run
+export interface RunStats {
+  backwardPipes: number[];
+  shieldSaves: number[];
+}
+
+export interface Achievement {
+  id: AchievementId;
+  icon: string; // Name and description are in the string catalogs
+  secret?: boolean; // Description hidden on the trophy screen until unlocked
+  check?: (state: SimState, stats: RunStats, bird: number) => boolean;
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'FIRST_10', icon: '🔟',
+    check: (state, _, bird) => state.birds[bird].score >= 10
+  },
+  {
+    id: 'BACKWARD_5', icon: '⏪',
+    check: (_, stats, bird) => stats.backwardPipes[bird] >= 5
+  },
+  {
+    id: 'DOUBLE_BIRTHDAY', icon: '🎂', secret: true,
+    check: (state, _, bird) => state.birds[bird].backwardBirthdays >= 2
+  },
+  {
+    id: 'HARD_50', icon: '💪',
+    check: (state, _, bird) => state.difficulty === 'HARD' && state.birds[bird].score >= 50
+  },
+  {
+    id: 'SURVIVE_60', icon: '⏱️',
+    check: (state, _, bird) => !state.birds[bird].crashed && state.tick * TICK_MS >= 60000
+  },
+  {
+    id: 'SHIELD_SAVE', icon: '🛡️',
+    check: (_, stats, bird) => stats.shieldSaves[bird] >= 1
+  },
+  {
+    id: 'COINS_10', icon: '🪙',
+    check: (state, _, bird) => state.birds[bird].coins >= 10
+  },
+  {
+    id: 'LEVEL_COMPLETE', icon: '🏁',
+    check: state => state.completed
+  },
+  { id: 'CAKE_UNLOCKED', icon: '🍰', secret: true },
+];
+
+export function achievement(id: AchievementId): Achievement {
+  return ACHIEVEMENTS.find(a => a.id === id)!;
+}
+
+export function isAchievementId(value: unknown): value is AchievementId {
+  return ACHIEVEMENTS.some(a => a.id === value);
+}
+
+export function createRunStats(birdCount: number): RunStats {
+  return {
+    backwardPipes: Array(birdCount).fill(0),
+    shieldSaves: Array(birdCount).fill(0)
+  };
+}
+
+export function trackEvents(stats: RunStats, events: SimEvent[]) {
+  events.forEach(event => {
+    if (event.type === 'pipePassedBackward') stats.backwardPipes[event.bird] += 1;
+    if (event.type === 'shieldUsed') stats.shieldSaves[event.bird] += 1;
+  });
+}
+
+// Everything any bird has earned so far this run that isn't in `unlocked` yet
+export function earnedAchievements(state: SimState, stats: RunStats, unlocked: Partial<Record<AchievementId, string>>): AchievementId[] {
+  return ACHIEVEMENTS
+    .filter(a => a.check && !unlocked[a.id] && state.birds.some((_, bird) => a.check!(state, stats, bird)))
+    .map(a => a.id);
+}
@@ -0,0 +1,51 @@
+import { CANVAS_HEIGHT } from './constants';
+import { rampedSettings } from './difficulty';
+import { SLOWMO_FACTOR } from './powerups';
+import { HORIZONTAL_SPEED, NO_INPUT, Pipe, SimInput, SimState, birdHitbox, createPlayer, gapTopAt } from './simulation';
+
+// --- Autopilot ---
+// Picks a bird's input for the next tick from what is on screen, the same
+// flap/left/right a player would give, so a bot run can be recorded,
+// replayed and raced like any other. It keeps the hitbox above the lower
+// edge of the next gap, and where a gap moves it aims for where the gap will
+// be when the bird gets there. It doesn't chase power-ups or coins.
+
+const MARGIN = 10; // Pixels kept between the hitbox and the gap's lower edge
+const OPEN_SKY_FLOOR = CANVAS_HEIGHT * 0.6; // Where it cruises when no obstacle is in sight
+
+// The first obstacle the bird hasn't left behind yet
+const nextObstacle = (state: SimState, x: number): Pipe | undefined =>
+  state.pipes
+    .filter(pipe => pipe.x + pipe.w > x)
+    .sort((a, b) => a.x - b.x)[0];
+
+export function botInput(state: SimState, index = 0): SimInput {
+  const bird = state.birds[index];
+  if (!bird || bird.crashed) return NO_INPUT;
+  const player = bird.player;
+  const hitbox = birdHitbox(bird);
+  const timeScale = state.slowMotionTicks > 0 ? SLOWMO_FACTOR : 1;
+  const speed = rampedSettings(state.settings, Math.max(...state.birds.map(b => b.score))).speed * timeScale;
+
+  // The lowest the gap's lower edge gets between reaching the obstacle and leaving it
+  let floor = OPEN_SKY_FLOOR;
+  const pipe = nextObstacle(state, hitbox.x);
+  if (pipe) {
+    const arrive = state.tick + Math.max(0, (pipe.x - hitbox.x - hitbox.w) / speed);
+    const leave = state.tick + (pipe.x + pipe.w - hitbox.x) / speed;
+    floor = Math.min(gapTopAt(pipe, Math.round(arrive)), gapTopAt(pipe, Math.round(leave))) + pipe.gap - MARGIN;
+  }
+  floor = Math.min(floor, CANVAS_HEIGHT - MARGIN);
+
+  // Flap when the coming tick would take the hitbox below the floor
+  const dy = player.dy + state.settings.gravity * timeScale;
+  const flap = hitbox.y + hitbox.h + dy * timeScale > floor;
+
+  // Drift back to where the bird started if something moved it
+  const home = createPlayer(index).x;
+  return {
+    flap,
+    left: player.x > home + HORIZONTAL_SPEED / 2,
+    right: player.x < home - HORIZONTAL_SPEED / 2
+  };
+}
@@ -0,0 +1,54 @@
+import { Difficulty, DifficultySettings } from './constants';
+import { botInput } from './bot';
+import { TICK_MS, createSimulation, stepSimulation } from './simulation';
+
+// --- Bot Batch ---
+// Lets the autopilot fly many seeds of a difficulty without a browser, to
+// check that a set of settings can actually be survived. Run it with
+// `npm run bot` (see scripts/bot-batch.mjs).
+
+export interface BotRun {
+  seed: number;
+  score: number;
+  seconds: number;
+  survived: boolean; // Still flying when the time ran out
+}
+
+export interface BotReport {
+  difficulty: Difficulty;
+  runs: BotRun[];
+  minScore: number;
+  medianScore: number;
+  maxScore: number;
+  meanSeconds: number;
+  survivalRate: number; // Share of runs that lasted the whole time, 0 to 1
+}
+
+export function runBot(difficulty: Difficulty, settings: DifficultySettings, seed: number, maxSeconds: number): BotRun {
+  const state = createSimulation(difficulty, settings, seed);
+  const maxTicks = Math.round(maxSeconds * 1000 / TICK_MS);
+  while (!state.crashed && state.tick < maxTicks) {
+    stepSimulation(state, [botInput(state)]);
+  }
+  return {
+    seed,
+    score: state.birds[0].score,
+    seconds: state.tick * TICK_MS / 1000,
+    survived: !state.crashed
+  };
+}
+
+// Seeds run from `firstSeed` up, so two reports with the same arguments fly the same courses
+export function runBotBatch(difficulty: Difficulty, settings: DifficultySettings, count: number, maxSeconds: number, firstSeed = 1): BotReport {
+  const runs = Array.from({ length: count }, (_, i) => runBot(difficulty, settings, firstSeed + i, maxSeconds));
+  const scores = runs.map(run => run.score).sort((a, b) => a - b);
+  return {
+    difficulty,
+    runs,
+    minScore: scores[0] ?? 0,
+    medianScore: scores[Math.floor(scores.length / 2)] ?? 0,
+    maxScore: scores[scores.length - 1] ?? 0,
+    meanSeconds: runs.reduce((sum, run) => sum + run.seconds, 0) / Math.max(1, runs.length),
+    survivalRate: runs.filter(run => run.survived).length / Math.max(1, runs.length)
+  };
+}
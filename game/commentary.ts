@@ -0,0 +1,114 @@
+import { SimEvent, SimState, TICK_MS } from './simulation';
+
+// --- Commentary ---
+// Decides when the cheering friend has something to say about the run and
+// what kind of thing it is; the lines themselves are in the string catalogs,
+// tagged by situation. Each kind has a cooldown, the one-off ones are said
+// once per run, and the lines of a kind are rotated so the same one doesn't
+// come back right away.
+
+export type Remark =
+  | { tag: 'SCORE' } // Nothing special, just a pipe
+  | { tag: 'NEAR_MISS' }
+  | { tag: 'SURVIVAL'; seconds: number }
+  | { tag: 'RECORD_CLOSE'; left: number }
+  | { tag: 'NEW_RECORD' }
+  | { tag: 'BACKWARD' }
+  | { tag: 'CRASH_AFTER_RECORD' };
+
+export type RemarkTag = Remark['tag'];
+
+const SECOND = 1000 / TICK_MS;
+
+// Ticks before a remark of the same kind may be made again
+const COOLDOWNS: Partial<Record<RemarkTag, number>> = {
+  NEAR_MISS: 4 * SECOND,
+  BACKWARD: 6 * SECOND,
+};
+
+export const NEAR_MISS_CLEARANCE = 6; // Pixels between the bird and a pipe that still count as close
+export const SURVIVAL_MILESTONE = 30 * SECOND;
+export const RECORD_CLOSE_POINTS = 3;
+const CRASH_AFTER_RECORD_TICKS = 3 * SECOND;
+// How many of a kind's latest lines are kept out of the next pick
+const LINE_MEMORY = 3;
+
+export class Commentator {
+  record: number | null = null;
+  saidAt = new Map<RemarkTag, number>(); // Tick each kind was last said
+  recentLines = new Map<RemarkTag, number[]>();
+  nextMilestone = SURVIVAL_MILESTONE;
+  newRecordTick: number | null = null;
+  random: () => number;
+
+  constructor(random: () => number = Math.random) {
+    this.random = random;
+  }
+
+  // `record` is the first bird's score to beat, null when there is none (versus, levels)
+  reset(record: number | null) {
+    this.record = record;
+    this.saidAt.clear();
+    this.nextMilestone = SURVIVAL_MILESTONE;
+    this.newRecordTick = null;
+  }
+
+  // What, if anything, is worth saying about one event. A pipe always gets
+  // at least SCORE; the most interesting situation wins.
+  observe(event: SimEvent, state: SimState): Remark | null {
+    switch (event.type) {
+      case 'pipePassed': {
+        const remark = this.afterPass(event.bird, event.score, event.clearance, state.tick);
+        if (remark.tag !== 'SCORE') this.saidAt.set(remark.tag, state.tick);
+        return remark;
+      }
+      case 'pipePassedBackward':
+        if (!this.ready('BACKWARD', state.tick)) return null;
+        this.saidAt.set('BACKWARD', state.tick);
+        return { tag: 'BACKWARD' };
+      case 'crash':
+        if (event.bird !== 0 || this.newRecordTick === null || state.tick - this.newRecordTick > CRASH_AFTER_RECORD_TICKS) return null;
+        return { tag: 'CRASH_AFTER_RECORD' };
+      default:
+        return null;
+    }
+  }
+
+  // One of `lines` for a remark of kind `tag`, avoiding the ones used lately
+  pick(tag: RemarkTag, lines: string[]): string {
+    const recent = this.recentLines.get(tag) || [];
+    const fresh = lines.map((_, i) => i).filter(i => !recent.includes(i));
+    const pool = fresh.length > 0 ? fresh : lines.map((_, i) => i);
+    const index = pool[Math.floor(this.random() * pool.length)];
+    this.recentLines.set(tag, [index, ...recent].slice(0, Math.min(LINE_MEMORY, lines.length - 1)));
+    return lines[index];
+  }
+
+  private ready(tag: RemarkTag, tick: number): boolean {
+    const said = this.saidAt.get(tag);
+    return said === undefined || tick - said >= (COOLDOWNS[tag] ?? Infinity);
+  }
+
+  private afterPass(bird: number, score: number, clearance: number, tick: number): Remark {
+    if (bird === 0 && this.record !== null && this.record > 0) {
+      if (score > this.record && this.newRecordTick === null) {
+        this.newRecordTick = tick;
+        return { tag: 'NEW_RECORD' };
+      }
+      const left = this.record - score;
+      if (this.record > RECORD_CLOSE_POINTS && left > 0 && left <= RECORD_CLOSE_POINTS && !this.saidAt.has('RECORD_CLOSE')) {
+        return { tag: 'RECORD_CLOSE', left };
+      }
+    }
+    // Negative room means a shield or the grace period carried it through
+    if (clearance >= 0 && clearance <= NEAR_MISS_CLEARANCE && this.ready('NEAR_MISS', tick)) {
+      return { tag: 'NEAR_MISS' };
+    }
+    if (tick >= this.nextMilestone) {
+      const seconds = Math.floor(tick / SURVIVAL_MILESTONE) * SURVIVAL_MILESTONE / SECOND;
+      this.nextMilestone = (Math.floor(tick / SURVIVAL_MILESTONE) + 1) * SURVIVAL_MILESTONE;
+      return { tag: 'SURVIVAL', seconds };
+    }
+    return { tag: 'SCORE' };
+  }
+}
@@ -0,0 +1,54 @@
+// --- Shared Game Constants ---
+
+export const CANVAS_WIDTH = 800;
+export const CANVAS_HEIGHT = 600;
+
+export type PresetDifficulty = 'EASY' | 'MEDIUM' | 'HARD';
+
+// Custom presets are keyed by their name, e.g. 'CUSTOM:Fødselsdag'
+export type CustomDifficulty = `CUSTOM:${string}`;
+
+export type Difficulty = PresetDifficulty | CustomDifficulty;
+
+// PIPE is the classic static pair; MOVING pipes have a gap that drifts up and
+// down, DOUBLE is two narrow pipes close together and SPIKES line the ceiling and floor
+export type ObstacleType = 'PIPE' | 'MOVING' | 'DOUBLE' | 'SPIKES';
+
+export const OBSTACLE_TYPES: ObstacleType[] = ['PIPE', 'MOVING', 'DOUBLE', 'SPIKES'];
+
+// Relative chance of each obstacle type for the random spawner
+export type ObstacleMix = Partial<Record<ObstacleType, number>>;
+
+// How a preset gets harder as the score rises; see rampedSettings()
+export interface RampCurve {
+  speedPerPoint: number;
+  gapPerPoint: number;
+  maxSpeed: number;
+  minGap: number;
+}
+
+export interface DifficultySettings {
+  speed: number;
+  gap: number;
+  gravity: number;
+  jump: number;
+  pipeInterval: number;
+  ramp?: RampCurve | null;
+  gapVariance?: number; // Each gap is up to this many pixels bigger or smaller
+  obstacleMix?: ObstacleMix; // Only plain pipes if missing
+}
+
+export const DIFFICULTIES: Record<PresetDifficulty, DifficultySettings> = {
+  EASY: {
+    speed: 2, gap: 240, gravity: 0.25, jump: -5.5, pipeInterval: 2200,
+    gapVariance: 20, obstacleMix: { PIPE: 8, MOVING: 1 }
+  },
+  MEDIUM: {
+    speed: 3, gap: 190, gravity: 0.5, jump: -7.5, pipeInterval: 1800,
+    gapVariance: 30, obstacleMix: { PIPE: 6, MOVING: 2, SPIKES: 1 }
+  },
+  HARD: {
+    speed: 5, gap: 150, gravity: 0.7, jump: -9, pipeInterval: 1400,
+    gapVariance: 30, obstacleMix: { PIPE: 4, MOVING: 3, DOUBLE: 2, SPIKES: 2 }
+  },
+};
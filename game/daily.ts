@@ -0,0 +1,28 @@
+import { PresetDifficulty } from './constants';
+
+// --- Daily Challenge ---
+// Today's date is the seed, so every device flies the exact same course on
+// the same day. Dates are local calendar days as 'YYYY-MM-DD'.
+
+// Fixed, so the course doesn't depend on what is selected on the START screen
+export const DAILY_DIFFICULTY: PresetDifficulty = 'MEDIUM';
+
+export function dayKey(date: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function previousDay(day: string): string {
+  const [y, m, d] = day.split('-').map(Number);
+  return dayKey(new Date(y, m - 1, d - 1));
+}
+
+// FNV-1a over the date string
+export function dailySeed(day: string): number {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < day.length; i++) {
+    hash ^= day.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
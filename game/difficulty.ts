@@ -0,0 +1,110 @@
+import { CustomDifficulty, DIFFICULTIES, Difficulty, DifficultySettings, OBSTACLE_TYPES, ObstacleMix, PresetDifficulty, RampCurve } from './constants';
+
+// --- Difficulty Presets ---
+// The three built-in presets plus any number of named custom ones. A custom
+// preset can carry a ramp curve, which speeds the pipes up and narrows the gap
+// as the score rises.
+
+export type CustomPresets = Record<string, DifficultySettings>;
+
+export const PRESET_DIFFICULTIES = Object.keys(DIFFICULTIES) as PresetDifficulty[];
+
+const CUSTOM_PREFIX = 'CUSTOM:';
+export const MAX_PRESET_NAME_LENGTH = 16;
+
+export interface SettingLimit {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const SETTING_LIMITS: Record<'speed' | 'gap' | 'gravity' | 'jump' | 'pipeInterval', SettingLimit> = {
+  speed: { min: 1, max: 10, step: 0.5 },
+  gap: { min: 100, max: 320, step: 5 },
+  gravity: { min: 0.1, max: 1.2, step: 0.05 },
+  jump: { min: -14, max: -3, step: 0.5 },
+  pipeInterval: { min: 800, max: 3500, step: 100 },
+};
+
+export const RAMP_LIMITS: Record<keyof RampCurve, SettingLimit> = {
+  speedPerPoint: { min: 0, max: 0.5, step: 0.05 },
+  gapPerPoint: { min: 0, max: 10, step: 1 },
+  maxSpeed: { min: 1, max: 12, step: 0.5 },
+  minGap: { min: 80, max: 320, step: 5 },
+};
+
+// Gap variance in pixels, and the weight of each obstacle type in the mix
+export const GAP_VARIANCE_LIMIT: SettingLimit = { min: 0, max: 60, step: 5 };
+export const MIX_WEIGHT_LIMIT: SettingLimit = { min: 0, max: 10, step: 1 };
+
+export const DEFAULT_RAMP: RampCurve = { speedPerPoint: 0.1, gapPerPoint: 2, maxSpeed: 7, minGap: 130 };
+
+export function customDifficulty(name: string): CustomDifficulty {
+  return `${CUSTOM_PREFIX}${name}`;
+}
+
+export function isCustomDifficulty(difficulty: string): difficulty is CustomDifficulty {
+  return difficulty.startsWith(CUSTOM_PREFIX) && difficulty.length > CUSTOM_PREFIX.length;
+}
+
+export function isDifficulty(value: any): value is Difficulty {
+  return typeof value === 'string' && (value in DIFFICULTIES || isCustomDifficulty(value));
+}
+
+// What the player sees: the preset name without the prefix
+export function difficultyLabel(difficulty: Difficulty): string {
+  return isCustomDifficulty(difficulty) ? difficulty.slice(CUSTOM_PREFIX.length) : difficulty;
+}
+
+// A custom preset that has since been deleted plays as EASY
+export function resolveDifficulty(difficulty: Difficulty, presets: CustomPresets): DifficultySettings {
+  if (isCustomDifficulty(difficulty)) return presets[difficultyLabel(difficulty)] || DIFFICULTIES.EASY;
+  return DIFFICULTIES[difficulty];
+}
+
+const clamp = (value: any, limit: SettingLimit, fallback: number) =>
+  typeof value === 'number' && isFinite(value) ? Math.max(limit.min, Math.min(limit.max, value)) : fallback;
+
+// Brings stored or imported settings back within the editor's limits. A
+// missing number falls back to MEDIUM's; a missing mix or variance means
+// plain pipes with a fixed gap, as before there were other obstacles.
+export function sanitizeSettings(value: any): DifficultySettings | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const base = DIFFICULTIES.MEDIUM;
+  const settings: DifficultySettings = {
+    speed: clamp(value.speed, SETTING_LIMITS.speed, base.speed),
+    gap: clamp(value.gap, SETTING_LIMITS.gap, base.gap),
+    gravity: clamp(value.gravity, SETTING_LIMITS.gravity, base.gravity),
+    jump: clamp(value.jump, SETTING_LIMITS.jump, base.jump),
+    pipeInterval: clamp(value.pipeInterval, SETTING_LIMITS.pipeInterval, base.pipeInterval),
+    gapVariance: clamp(value.gapVariance, GAP_VARIANCE_LIMIT, 0),
+  };
+  if (value.obstacleMix && typeof value.obstacleMix === 'object') {
+    const mix: ObstacleMix = {};
+    OBSTACLE_TYPES.forEach(type => {
+      const weight = value.obstacleMix[type];
+      if (typeof weight === 'number' && weight > 0) mix[type] = weight;
+    });
+    settings.obstacleMix = mix;
+  }
+  if (value.ramp && typeof value.ramp === 'object') {
+    settings.ramp = {
+      speedPerPoint: clamp(value.ramp.speedPerPoint, RAMP_LIMITS.speedPerPoint, DEFAULT_RAMP.speedPerPoint),
+      gapPerPoint: clamp(value.ramp.gapPerPoint, RAMP_LIMITS.gapPerPoint, DEFAULT_RAMP.gapPerPoint),
+      maxSpeed: clamp(value.ramp.maxSpeed, RAMP_LIMITS.maxSpeed, DEFAULT_RAMP.maxSpeed),
+      minGap: clamp(value.ramp.minGap, RAMP_LIMITS.minGap, DEFAULT_RAMP.minGap),
+    };
+  }
+  return settings;
+}
+
+// Pipe speed and gap at a given score. Without a ramp they never change; with
+// one they move linearly towards maxSpeed and minGap and stop there.
+export function rampedSettings(settings: DifficultySettings, score: number): { speed: number; gap: number } {
+  const ramp = settings.ramp;
+  if (!ramp) return { speed: settings.speed, gap: settings.gap };
+  return {
+    speed: Math.max(settings.speed, Math.min(ramp.maxSpeed, settings.speed + ramp.speedPerPoint * score)),
+    gap: Math.min(settings.gap, Math.max(ramp.minGap, settings.gap - ramp.gapPerPoint * score)),
+  };
+}
@@ -0,0 +1,85 @@
+import { CANVAS_HEIGHT, OBSTACLE_TYPES, ObstacleType } from './constants';
+
+// --- Level Format ---
+// A level is an ordered list of obstacles. Each one is placed `spacing` pixels
+// after the previous one (the first is measured from the left edge of the
+// screen at the start of the run), so levels can be edited one gap at a time.
+// A running level spawns each obstacle as it scrolls into view, instead of the
+// random spawner.
+
+export const LEVEL_VERSION = 1;
+export const LEVEL_FILE_KIND = 'flappy-nichlas-level';
+
+export const MIN_GAP = 80;
+export const MAX_GAP = 400;
+export const MIN_PIPE_HEIGHT = 50;
+
+export interface LevelObstacle {
+  spacing: number; // Pixels after the previous obstacle
+  gapY: number; // Top of the gap
+  gap: number; // Height of the gap
+  type?: ObstacleType;
+  toast?: string; // Shown when the first bird passes it
+}
+
+export interface Level {
+  version: number;
+  name: string;
+  obstacles: LevelObstacle[];
+}
+
+// An obstacle at its absolute position, which is what the editor works with
+export interface PlacedObstacle extends Omit<LevelObstacle, 'spacing'> {
+  x: number;
+}
+
+export function createLevel(name = 'Ny bane'): Level {
+  return { version: LEVEL_VERSION, name, obstacles: [] };
+}
+
+export function placeObstacles(level: Level): PlacedObstacle[] {
+  let x = 0;
+  return level.obstacles.map(({ spacing, ...rest }) => {
+    x += spacing;
+    return { ...rest, x };
+  });
+}
+
+// Back to spacings; obstacles may have been dragged past each other
+export function levelFromPlaced(name: string, placed: PlacedObstacle[]): Level {
+  let previous = 0;
+  const obstacles = [...placed]
+    .sort((a, b) => a.x - b.x)
+    .map(({ x, ...rest }) => {
+      const spacing = Math.round(x - previous);
+      previous = x;
+      return { ...rest, spacing };
+    });
+  return { version: LEVEL_VERSION, name, obstacles };
+}
+
+// Keeps the gap on screen and at a sane size
+export function clampObstacle<T extends { gapY: number; gap: number }>(obstacle: T): T {
+  const gap = Math.round(Math.max(MIN_GAP, Math.min(MAX_GAP, obstacle.gap)));
+  const gapY = Math.round(Math.max(MIN_PIPE_HEIGHT, Math.min(CANVAS_HEIGHT - gap - MIN_PIPE_HEIGHT, obstacle.gapY)));
+  return { ...obstacle, gap, gapY };
+}
+
+const isObstacle = (value: any): value is LevelObstacle => (
+  !!value &&
+  typeof value.spacing === 'number' && value.spacing >= 0 &&
+  typeof value.gapY === 'number' &&
+  typeof value.gap === 'number' &&
+  (value.type === undefined || OBSTACLE_TYPES.includes(value.type)) &&
+  (value.toast === undefined || typeof value.toast === 'string')
+);
+
+export function isLevel(value: any): value is Level {
+  return (
+    !!value &&
+    value.version === LEVEL_VERSION &&
+    typeof value.name === 'string' &&
+    Array.isArray(value.obstacles) &&
+    value.obstacles.every(isObstacle)
+  );
+}
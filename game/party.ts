@@ -0,0 +1,64 @@
+import { FLAG_STYLES, FlagStyle } from './skins';
+
+// --- Party ---
+// Who the game is for. The catalogs say {name}, {NAME} and {friend} where
+// the birthday person and the cheering friend go, and the bird wears the
+// birthday person's flag wherever a skin has the Danish one.
+
+export interface PartyConfig {
+  name: string; // The birthday person
+  friend: string; // The one cheering in the toasts
+  flag: FlagStyle;
+  body: string | null; // '#RRGGBB', null keeps P1's red
+  cheers: string[]; // Replace the built-in toasts when there are any
+}
+
+export const DEFAULT_PARTY: PartyConfig = { name: 'Nichlas', friend: 'Marcus', flag: 'DENMARK', body: null, cheers: [] };
+
+export const MAX_PARTY_NAME_LENGTH = 16;
+export const MAX_CHEERS = 10;
+export const MAX_CHEER_LENGTH = 40;
+
+const COLOR_PATTERN = /^#?([0-9a-f]{6})$/i;
+
+// Control characters and the catalog's own braces would break the toasts and the tokens
+const cleanText = (value: unknown, maxLength: number): string =>
+  typeof value === 'string' ? value.replace(/[\u0000-\u001f\u007f{}]/g, '').trim().slice(0, maxLength).trim() : '';
+
+export function isFlagStyle(value: unknown): value is FlagStyle {
+  return typeof value === 'string' && (FLAG_STYLES as string[]).includes(value);
+}
+
+// '#abc123' or 'abc123' to '#ABC123'; anything else is null
+export function normalizeColor(value: unknown): string | null {
+  const match = typeof value === 'string' ? COLOR_PATTERN.exec(value.trim()) : null;
+  return match ? `#${match[1].toUpperCase()}` : null;
+}
+
+// Keeps what is valid and falls back to the default field by field, so one
+// mangled parameter in a link doesn't throw away the rest
+export function sanitizeParty(raw: any): PartyConfig {
+  if (!raw || typeof raw !== 'object') return { ...DEFAULT_PARTY };
+  const cheers = Array.isArray(raw.cheers)
+    ? raw.cheers.map((cheer: unknown) => cleanText(cheer, MAX_CHEER_LENGTH)).filter(Boolean).slice(0, MAX_CHEERS)
+    : [];
+  return {
+    name: cleanText(raw.name, MAX_PARTY_NAME_LENGTH) || DEFAULT_PARTY.name,
+    friend: cleanText(raw.friend, MAX_PARTY_NAME_LENGTH) || DEFAULT_PARTY.friend,
+    flag: isFlagStyle(raw.flag) ? raw.flag : DEFAULT_PARTY.flag,
+    body: normalizeColor(raw.body),
+    cheers
+  };
+}
+
+export function isDefaultParty(party: PartyConfig): boolean {
+  return party.name === DEFAULT_PARTY.name &&
+    party.friend === DEFAULT_PARTY.friend &&
+    party.flag === DEFAULT_PARTY.flag &&
+    party.body === DEFAULT_PARTY.body &&
+    party.cheers.length === 0;
+}
+
+// The flag a skin is drawn with for the birthday person
+export const partyFlag = (skinFlag: FlagStyle, party: PartyConfig): FlagStyle =>
+  skinFlag === 'DENMARK' ? party.flag : skinFlag;
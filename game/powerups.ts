@@ -0,0 +1,23 @@
+// --- Power-ups ---
+// Pickups that sometimes float in the gap of a random pipe. Durations are in
+// simulation ticks so they stay deterministic, and the first bird to touch one gets it.
+
+export type PowerUpType = 'SHIELD' | 'SLOWMO' | 'SHRINK' | 'DOUBLE';
+
+export const POWER_UP_TYPES: PowerUpType[] = ['SHIELD', 'SLOWMO', 'SHRINK', 'DOUBLE'];
+
+export const POWER_UP_TICKS: Record<PowerUpType, number> = {
+  SHIELD: 900, // Or until it absorbs a hit
+  SLOWMO: 300,
+  SHRINK: 480,
+  DOUBLE: 600,
+};
+
+export const POWER_UP_CHANCE = 0.15; // Per spawned pipe
+export const POWER_UP_SIZE = 26;
+export const SLOWMO_FACTOR = 0.5; // Pipe speed, gravity and fall speed
+export const SHRINK_FACTOR = 0.6; // Hitbox and sprite size
+export const SHIELD_GRACE_TICKS = 45; // Invulnerable after a shield breaks, to get clear of the pipe
+
+// Ticks left per active power-up
+export type ActivePowerUps = Partial<Record<PowerUpType, number>>;
@@ -0,0 +1,113 @@
+import { DIFFICULTIES, Difficulty, DifficultySettings } from './constants';
+import { isCustomDifficulty, isDifficulty, sanitizeSettings } from './difficulty';
+import { Level, isLevel } from './level';
+import { SimInput, SimState } from './simulation';
+
+// --- Run Recording ---
+// A run is fully described by its seed, settings and the inputs per tick, since
+// the simulation is deterministic. Inputs are stored sparsely: the ticks on which
+// Nichlas flapped, and the left/right state only when it changes.
+
+// Older recordings predate obstacle types and power-ups and would no longer replay the same run
+export const REPLAY_VERSION = 3;
+
+const STEER_LEFT = 1;
+const STEER_RIGHT = 2;
+
+export interface RunRecording {
+  version: number;
+  seed: number;
+  difficulty: Difficulty;
+  settings?: DifficultySettings; // Missing in recordings made before custom presets existed
+  level?: Level; // Runs on a level instead of random pipes
+  recordedAt: string; // ISO date
+  ticks: number; // Length of the run
+  score: number;
+  flaps: number[]; // Ticks with a jump, ascending
+  steer: [number, number][]; // [tick, left/right bitmask] whenever the mask changes
+}
+
+// Position while reading a recording tick by tick
+export interface PlaybackCursor {
+  flapIndex: number;
+  steerIndex: number;
+  mask: number;
+}
+
+export function createRecording(seed: number, difficulty: Difficulty, settings: DifficultySettings, level: Level | null = null): RunRecording {
+  return {
+    version: REPLAY_VERSION,
+    seed,
+    difficulty,
+    settings,
+    ...(level ? { level } : {}),
+    recordedAt: new Date().toISOString(),
+    ticks: 0,
+    score: 0,
+    flaps: [],
+    steer: []
+  };
+}
+
+// `tick` is the simulation tick the input is about to be applied to (state.tick before stepping)
+export function recordInput(recording: RunRecording, tick: number, input: SimInput) {
+  if (input.flap) recording.flaps.push(tick);
+
+  const mask = (input.left ? STEER_LEFT : 0) | (input.right ? STEER_RIGHT : 0);
+  const last = recording.steer[recording.steer.length - 1];
+  if ((last ? last[1] : 0) !== mask) {
+    recording.steer.push([tick, mask]);
+  }
+}
+
+export function finishRecording(recording: RunRecording, state: SimState) {
+  recording.ticks = state.tick;
+  recording.score = state.birds[0].score;
+}
+
+// The settings the run was flown with, even if its custom preset was edited since
+export function recordingSettings(recording: RunRecording): DifficultySettings {
+  if (recording.settings) return recording.settings;
+  return DIFFICULTIES[isCustomDifficulty(recording.difficulty) ? 'EASY' : recording.difficulty];
+}
+
+export function createPlaybackCursor(): PlaybackCursor {
+  return { flapIndex: 0, steerIndex: 0, mask: 0 };
+}
+
+// Ticks must be read in ascending order; start a new cursor to go back
+export function readRecordedInput(recording: RunRecording, cursor: PlaybackCursor, tick: number): SimInput {
+  const { flaps, steer } = recording;
+  while (cursor.flapIndex < flaps.length && flaps[cursor.flapIndex] < tick) cursor.flapIndex++;
+  while (cursor.steerIndex < steer.length && steer[cursor.steerIndex][0] <= tick) {
+    cursor.mask = steer[cursor.steerIndex][1];
+    cursor.steerIndex++;
+  }
+
+  return {
+    flap: flaps[cursor.flapIndex] === tick,
+    left: (cursor.mask & STEER_LEFT) !== 0,
+    right: (cursor.mask & STEER_RIGHT) !== 0
+  };
+}
+
+// Checks a stored or imported recording and brings its settings back within
+// the editor's limits, since they drive the run like any preset would
+export function sanitizeRecording(value: any): RunRecording | null {
+  const valid =
+    !!value &&
+    value.version === REPLAY_VERSION &&
+    typeof value.seed === 'number' &&
+    isDifficulty(value.difficulty) &&
+    (value.level === undefined || isLevel(value.level)) &&
+    typeof value.ticks === 'number' &&
+    typeof value.score === 'number' &&
+    Array.isArray(value.flaps) &&
+    Array.isArray(value.steer);
+  if (!valid) return null;
+
+  // Only the built-in presets can do without settings of their own
+  if (value.settings === undefined) return isCustomDifficulty(value.difficulty) ? null : value;
+  const settings = sanitizeSettings(value.settings);
+  return settings ? { ...value, settings } : null;
+}
@@ -0,0 +1,45 @@
+import { SimState, TICK_MS } from './simulation';
+
+// --- Rewind ---
+// Rewind practice keeps the last few seconds of simulation states, so time
+// can be wound back after a crash or for as long as the rewind key is held,
+// and the run goes on from there. A fixed-size ring buffer: once it is full
+// the oldest state drops out as each new one comes in.
+
+export const REWIND_SECONDS = 5; // The most that can be wound back in one go
+export const CRASH_REWIND_TICKS = Math.round(2000 / TICK_MS); // How far back a crash winds
+
+export class RewindBuffer {
+  states: (SimState | null)[];
+  next = 0; // Slot the next state goes in
+  size = 0;
+
+  constructor(capacity = Math.round(REWIND_SECONDS * 1000 / TICK_MS)) {
+    this.states = new Array(capacity).fill(null);
+  }
+
+  // Stores a copy, since the running simulation goes on mutating its own.
+  // The level never changes during a run, so it is shared instead of copied.
+  push(state: SimState) {
+    const { level, levelObstacles, ...rest } = state;
+    this.states[this.next] = { ...structuredClone(rest), level, levelObstacles };
+    this.next = (this.next + 1) % this.states.length;
+    this.size = Math.min(this.size + 1, this.states.length);
+  }
+
+  // Takes out the most recent state; null once there is nothing left
+  pop(): SimState | null {
+    if (this.size === 0) return null;
+    this.next = (this.next - 1 + this.states.length) % this.states.length;
+    this.size -= 1;
+    const state = this.states[this.next];
+    this.states[this.next] = null;
+    return state;
+  }
+
+  clear() {
+    this.states.fill(null);
+    this.next = 0;
+    this.size = 0;
+  }
+}
@@ -0,0 +1,30 @@
+// --- Seeded PRNG ---
+// mulberry32: tiny, fast and good enough for pipe heights. The whole state is a
+// single uint32 kept in a plain object, so it can be cloned along with the rest
+// of the simulation state.
+
+export interface Rng {
+  state: number;
+}
+
+export function createRng(seed: number): Rng {
+  return { state: seed >>> 0 };
+}
+
+// Returns a float in [0, 1) and advances the generator
+export function nextFloat(rng: Rng): number {
+  rng.state = (rng.state + 0x6D2B79F5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+// Integer in [min, max], both inclusive
+export function nextInt(rng: Rng, min: number, max: number): number {
+  return Math.floor(nextFloat(rng) * (max - min + 1)) + min;
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
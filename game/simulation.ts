@@ -0,0 +1,516 @@
+import { CANVAS_HEIGHT, CANVAS_WIDTH, Difficulty, DifficultySettings, OBSTACLE_TYPES, ObstacleMix, ObstacleType } from './constants';
+import { rampedSettings } from './difficulty';
+import { Level, MIN_GAP, MIN_PIPE_HEIGHT, PlacedObstacle, placeObstacles } from './level';
+import { ActivePowerUps, POWER_UP_CHANCE, POWER_UP_SIZE, POWER_UP_TICKS, POWER_UP_TYPES, PowerUpType, SHIELD_GRACE_TICKS, SHRINK_FACTOR, SLOWMO_FACTOR } from './powerups';
+import { Rng, createRng, nextFloat, nextInt } from './rng';
+
+// --- Headless Simulation Core ---
+// Everything that decides how a run plays out lives here. No DOM, no canvas and
+// no Math.random(): the same seed and the same inputs always give the same run,
+// so it can be stepped in Node just as well as in the browser.
+
+// The rules advance in fixed 60 Hz ticks regardless of the monitor refresh rate
+export const TICK_MS = 1000 / 60;
+
+export const HORIZONTAL_SPEED = 5;
+const COLLISION_FORGIVENESS = 12;
+const BACKWARD_BIRTHDAY_STREAK = 5;
+export const PIPE_WIDTH = 52;
+const NARROW_PIPE_WIDTH = 26;
+const DOUBLE_PIPE_SPACING = 60;
+export const SPIKE_WIDTH = 20;
+const SPIKE_TEETH = 6;
+const MIN_SPIKE_LENGTH = 40;
+const SPIKE_EXTRA_GAP = 120; // Spikes are a longer stretch than a pipe, so they leave more room
+const MOVING_AMPLITUDE = 60;
+const MOVING_SPEED = 0.03; // Radians per tick
+export const COIN_SIZE = 20;
+const COIN_CHANCE = 0.6; // Per gap between two random pipes
+const COIN_DRIFT = 60; // How far a coin may sit from the previous pipe's gap centre
+const COIN_SEED_SALT = 0x5EED_C011;
+
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface Player {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  dy: number;
+  angle: number;
+}
+
+// Every obstacle is a pipe-like band with a free gap; `type` decides its shape
+export interface Pipe {
+  type: ObstacleType;
+  x: number;
+  y: number; // Top pipe height
+  w: number;
+  gap: number; // Fixed at spawn, so a ramp never narrows a pipe already on screen
+  motion?: { baseY: number; amplitude: number; phase: number }; // MOVING only
+  powerUp?: PowerUpType; // Floating in the middle of the gap until someone takes it
+  toast?: string; // From a level; shown once, when the first bird passes
+  passed: boolean[]; // Per bird
+  passedBackward: boolean[]; // Per bird, track if passed backwards
+  clearance: number[]; // Per bird, the least room it had to the gap's edges while inside
+  id: number;
+}
+
+// A cake slice floating halfway between two pipes, worth one coin in the shop
+export interface Coin {
+  x: number;
+  y: number; // Top edge
+  id: number; // Tick it spawned on
+}
+
+// Input sampled once per tick, one per bird
+export interface SimInput {
+  flap: boolean;
+  left: boolean;
+  right: boolean;
+}
+
+export const NO_INPUT: SimInput = { flap: false, left: false, right: false };
+
+// Things that happened during a tick, for the caller to turn into sound, particles and toasts.
+// `bird` is the index into SimState.birds.
+export type SimEvent =
+  | { type: 'flap'; bird: number }
+  | { type: 'pipePassed'; bird: number; score: number; clearance: number }
+  | { type: 'pipePassedBackward'; bird: number; streak: number }
+  | { type: 'backwardBirthday'; bird: number }
+  | { type: 'crash'; bird: number }
+  | { type: 'levelToast'; bird: number; text: string }
+  | { type: 'powerUp'; bird: number; powerUp: PowerUpType }
+  | { type: 'shieldUsed'; bird: number }
+  | { type: 'coin'; bird: number; coins: number }
+  | { type: 'levelComplete' };
+
+// One Nichlas and everything scored by him. All birds share the pipe stream.
+export interface Bird {
+  player: Player;
+  score: number;
+  backwardStreak: number;
+  backwardBirthdays: number;
+  crashed: boolean;
+  crashedAtTick: number | null;
+  powerUps: ActivePowerUps; // SLOWMO is kept on SimState instead, since it slows the whole world
+  graceTicks: number;
+  coins: number;
+}
+
+export interface SimState {
+  difficulty: Difficulty;
+  settings: DifficultySettings; // Resolved once, so editing a custom preset never changes a run
+  seed: number;
+  tick: number;
+  rng: Rng;
+  birds: Bird[];
+  pipes: Pipe[];
+  msSinceLastPipe: number;
+  nextPipeId: number;
+  // Coins roll on their own generator, so they never change the pipes a seed gives
+  coinRng: Rng;
+  coins: Coin[];
+  coinDue: boolean; // The current gap between pipes hasn't had its coin roll yet
+  crashed: boolean; // Every bird is down and the run is over
+  slowMotionTicks: number;
+  // Set when playing a level instead of random pipes
+  level: Level | null;
+  levelObstacles: PlacedObstacle[];
+  nextObstacle: number;
+  distance: number; // Pixels scrolled so far
+  completed: boolean; // Every obstacle of the level has been passed
+}
+
+// Extra birds start slightly lower so they don't overlap the first one
+export function createPlayer(index = 0): Player {
+  return { x: 100, y: 250 + index * 60, w: 34, h: 28, dy: 0, angle: 0 };
+}
+
+const createBird = (index: number): Bird => ({
+  player: createPlayer(index),
+  score: 0,
+  backwardStreak: 0,
+  backwardBirthdays: 0,
+  crashed: false,
+  crashedAtTick: null,
+  powerUps: {},
+  graceTicks: 0,
+  coins: 0
+});
+
+export function createSimulation(difficulty: Difficulty, settings: DifficultySettings, seed: number, birdCount = 1, level: Level | null = null): SimState {
+  return {
+    difficulty,
+    settings,
+    seed,
+    tick: 0,
+    rng: createRng(seed),
+    birds: Array.from({ length: birdCount }, (_, i) => createBird(i)),
+    pipes: [],
+    // Primed so the first pipe spawns on the first tick
+    msSinceLastPipe: settings.pipeInterval,
+    nextPipeId: 0,
+    coinRng: createRng(seed ^ COIN_SEED_SALT),
+    coins: [],
+    coinDue: false,
+    crashed: false,
+    slowMotionTicks: 0,
+    level,
+    levelObstacles: level ? placeObstacles(level) : [],
+    nextObstacle: 0,
+    distance: 0,
+    completed: false,
+  };
+}
+
+export function obstacleWidth(type: ObstacleType): number {
+  switch (type) {
+    case 'DOUBLE': return NARROW_PIPE_WIDTH * 2 + DOUBLE_PIPE_SPACING;
+    case 'SPIKES': return SPIKE_WIDTH * SPIKE_TEETH;
+    default: return PIPE_WIDTH;
+  }
+}
+
+// Enough of an obstacle to draw it or collide with it
+export type ObstacleShape = Pick<Pipe, 'type' | 'x' | 'y' | 'w' | 'gap'>;
+
+// The solid pipes of an obstacle: two narrow ones for DOUBLE, otherwise one
+export function obstacleColumns(o: ObstacleShape): { x: number; w: number }[] {
+  if (o.type === 'DOUBLE') {
+    return [{ x: o.x, w: NARROW_PIPE_WIDTH }, { x: o.x + o.w - NARROW_PIPE_WIDTH, w: NARROW_PIPE_WIDTH }];
+  }
+  return [{ x: o.x, w: o.w }];
+}
+
+// Left edge of every spike tooth; teeth point down from the ceiling and up from the floor
+export function spikeTeeth(o: ObstacleShape): number[] {
+  return Array.from({ length: Math.floor(o.w / SPIKE_WIDTH) }, (_, i) => o.x + i * SPIKE_WIDTH);
+}
+
+export function obstacleHitboxes(o: ObstacleShape): Rect[] {
+  const bottomY = o.y + o.gap;
+  const bottomH = CANVAS_HEIGHT - bottomY;
+  if (o.type === 'SPIKES') {
+    // Each triangular tooth is a wide base plus a narrow tip
+    return spikeTeeth(o).flatMap(tx => [
+      { x: tx, y: 0, w: SPIKE_WIDTH, h: o.y / 2 },
+      { x: tx + SPIKE_WIDTH / 3, y: 0, w: SPIKE_WIDTH / 3, h: o.y },
+      { x: tx, y: bottomY + bottomH / 2, w: SPIKE_WIDTH, h: bottomH / 2 },
+      { x: tx + SPIKE_WIDTH / 3, y: bottomY, w: SPIKE_WIDTH / 3, h: bottomH }
+    ]);
+  }
+  return obstacleColumns(o).flatMap(c => [
+    { x: c.x, y: 0, w: c.w, h: o.y },
+    { x: c.x, y: bottomY, w: c.w, h: bottomH }
+  ]);
+}
+
+// Top of a pipe's gap on a given tick; only MOVING gaps ever change
+export function gapTopAt(pipe: Pipe, tick: number): number {
+  const motion = pipe.motion;
+  return motion ? motion.baseY + Math.sin(motion.phase + tick * MOVING_SPEED) * motion.amplitude : pipe.y;
+}
+
+// Where a pipe's power-up floats; it follows a MOVING gap
+export function powerUpRect(pipe: ObstacleShape): Rect {
+  return {
+    x: pipe.x + pipe.w / 2 - POWER_UP_SIZE / 2,
+    y: pipe.y + pipe.gap / 2 - POWER_UP_SIZE / 2,
+    w: POWER_UP_SIZE,
+    h: POWER_UP_SIZE
+  };
+}
+
+// The part of a bird that can hit things: forgiving at the edges, and smaller while shrunk
+export function birdHitbox(bird: Bird): Rect {
+  const player = bird.player;
+  const scale = bird.powerUps.SHRINK ? SHRINK_FACTOR : 1;
+  const w = (player.w - COLLISION_FORGIVENESS * 2) * scale;
+  const h = (player.h - COLLISION_FORGIVENESS * 2) * scale;
+  return { x: player.x + (player.w - w) / 2, y: player.y + (player.h - h) / 2, w, h };
+}
+
+export function checkRectCollide(r1: Rect, r2: Rect): boolean {
+  return (
+    r1.x < r2.x + r2.w &&
+    r1.x + r1.w > r2.x &&
+    r1.y < r2.y + r2.h &&
+    r1.y + r1.h > r2.y
+  );
+}
+
+// The leading bird's score drives the ramp, since all birds share the pipes
+const currentSettings = (state: SimState) =>
+  rampedSettings(state.settings, Math.max(...state.birds.map(b => b.score)));
+
+const pickObstacleType = (rng: Rng, mix: ObstacleMix | undefined): ObstacleType => {
+  const weighted = OBSTACLE_TYPES.filter(type => (mix?.[type] ?? 0) > 0);
+  if (!mix || weighted.length === 0) return 'PIPE';
+  let roll = nextFloat(rng) * weighted.reduce((sum, type) => sum + mix[type]!, 0);
+  return weighted.find(type => (roll -= mix[type]!) < 0) || weighted[weighted.length - 1];
+};
+
+const createPipe = (state: SimState, type: ObstacleType, x: number, y: number, gap: number): Pipe => ({
+  type,
+  x,
+  y,
+  w: obstacleWidth(type),
+  gap,
+  passed: state.birds.map(() => false),
+  passedBackward: state.birds.map(() => false),
+  clearance: state.birds.map(() => Infinity),
+  id: state.nextPipeId++
+});
+
+// A MOVING gap swings around `y`, kept far enough from the edges to stay on screen
+const addMotion = (pipe: Pipe, phase: number) => {
+  const baseY = Math.max(MIN_PIPE_HEIGHT + MOVING_AMPLITUDE, Math.min(CANVAS_HEIGHT - pipe.gap - MIN_PIPE_HEIGHT - MOVING_AMPLITUDE, pipe.y));
+  pipe.motion = { baseY, amplitude: MOVING_AMPLITUDE, phase };
+  pipe.y = baseY + Math.sin(phase) * MOVING_AMPLITUDE;
+};
+
+export function spawnPipe(state: SimState) {
+  const settings = state.settings;
+  const type = pickObstacleType(state.rng, settings.obstacleMix);
+  const variance = settings.gapVariance ?? 0;
+  let gap = currentSettings(state).gap;
+  if (variance > 0) gap = Math.max(MIN_GAP, gap + nextInt(state.rng, -variance, variance));
+
+  if (type === 'SPIKES') {
+    const band = Math.min(gap + SPIKE_EXTRA_GAP, CANVAS_HEIGHT - MIN_SPIKE_LENGTH * 2);
+    const top = nextInt(state.rng, MIN_SPIKE_LENGTH, CANVAS_HEIGHT - band - MIN_SPIKE_LENGTH);
+    const spikes = createPipe(state, type, CANVAS_WIDTH, top, band);
+    if (nextFloat(state.rng) < POWER_UP_CHANCE) spikes.powerUp = POWER_UP_TYPES[nextInt(state.rng, 0, POWER_UP_TYPES.length - 1)];
+    state.pipes.push(spikes);
+    return;
+  }
+
+  const pipe = createPipe(state, type, CANVAS_WIDTH, nextInt(state.rng, MIN_PIPE_HEIGHT, CANVAS_HEIGHT - gap - MIN_PIPE_HEIGHT), gap);
+  if (type === 'MOVING') addMotion(pipe, nextFloat(state.rng) * Math.PI * 2);
+  if (nextFloat(state.rng) < POWER_UP_CHANCE) pipe.powerUp = POWER_UP_TYPES[nextInt(state.rng, 0, POWER_UP_TYPES.length - 1)];
+  state.pipes.push(pipe);
+}
+
+// Around the gap of the pipe that just went out, so it can be reached on the way to the next one
+const spawnCoin = (state: SimState) => {
+  if (nextFloat(state.coinRng) >= COIN_CHANCE) return;
+  const last = state.pipes[state.pipes.length - 1];
+  const centre = last ? last.y + last.gap / 2 : CANVAS_HEIGHT / 2;
+  const y = centre + nextInt(state.coinRng, -COIN_DRIFT, COIN_DRIFT) - COIN_SIZE / 2;
+  state.coins.push({
+    x: CANVAS_WIDTH,
+    y: Math.max(MIN_PIPE_HEIGHT, Math.min(CANVAS_HEIGHT - MIN_PIPE_HEIGHT - COIN_SIZE, y)),
+    id: state.tick
+  });
+};
+
+export function coinRect(coin: Coin): Rect {
+  return { x: coin.x, y: coin.y, w: COIN_SIZE, h: COIN_SIZE };
+}
+
+// Level obstacles appear as soon as they scroll into view
+const spawnLevelObstacles = (state: SimState) => {
+  const obstacles = state.levelObstacles;
+  while (state.nextObstacle < obstacles.length && obstacles[state.nextObstacle].x - state.distance <= CANVAS_WIDTH) {
+    const obstacle = obstacles[state.nextObstacle++];
+    const pipe = createPipe(state, obstacle.type || 'PIPE', obstacle.x - state.distance, obstacle.gapY, obstacle.gap);
+    pipe.toast = obstacle.toast;
+    if (pipe.type === 'MOVING') addMotion(pipe, 0);
+    state.pipes.push(pipe);
+  }
+};
+
+const crash = (state: SimState, index: number, events: SimEvent[]) => {
+  const bird = state.birds[index];
+  if (bird.crashed) return;
+  bird.crashed = true;
+  bird.crashedAtTick = state.tick;
+  events.push({ type: 'crash', bird: index });
+};
+
+// A shield, or the grace period after one broke, turns a crash into a near miss.
+// Returns whether the bird actually crashed.
+const hit = (state: SimState, index: number, events: SimEvent[]): boolean => {
+  const bird = state.birds[index];
+  if (bird.graceTicks > 0) return false;
+  if (bird.powerUps.SHIELD) {
+    delete bird.powerUps.SHIELD;
+    bird.graceTicks = SHIELD_GRACE_TICKS;
+    events.push({ type: 'shieldUsed', bird: index });
+    return false;
+  }
+  crash(state, index, events);
+  return true;
+};
+
+const tickPowerUps = (bird: Bird) => {
+  if (bird.graceTicks > 0) bird.graceTicks -= 1;
+  (Object.keys(bird.powerUps) as PowerUpType[]).forEach(type => {
+    const left = bird.powerUps[type]! - 1;
+    if (left > 0) bird.powerUps[type] = left;
+    else delete bird.powerUps[type];
+  });
+};
+
+const stepBird = (state: SimState, index: number, input: SimInput, events: SimEvent[]) => {
+  const settings = state.settings;
+  const bird = state.birds[index];
+  const player = bird.player;
+  const timeScale = state.slowMotionTicks > 0 ? SLOWMO_FACTOR : 1;
+  tickPowerUps(bird);
+
+  // Horizontal Movement
+  if (input.left) player.x -= HORIZONTAL_SPEED;
+  if (input.right) player.x += HORIZONTAL_SPEED;
+  player.x = Math.max(0, Math.min(CANVAS_WIDTH - player.w, player.x));
+
+  // Physics
+  if (input.flap) {
+    player.dy = settings.jump;
+    events.push({ type: 'flap', bird: index });
+  }
+  player.dy += settings.gravity * timeScale;
+  player.y += player.dy * timeScale;
+
+  // Rotation logic
+  const targetAngle = Math.min(Math.PI / 3, Math.max(-0.4, player.dy * 0.1));
+  player.angle += (targetAngle - player.angle) * 0.2;
+
+  // Boundaries
+  if (player.y + player.h > CANVAS_HEIGHT && !hit(state, index, events)) {
+    // Saved by the shield: bounce off the ground
+    player.y = CANVAS_HEIGHT - player.h;
+    player.dy = settings.jump;
+  }
+  if (player.y < 0) {
+    player.y = 0;
+    player.dy = 0;
+  }
+};
+
+// Collision and scoring of one bird against one pipe that has already moved this tick
+const checkPipe = (state: SimState, index: number, pipe: Pipe, events: SimEvent[]) => {
+  const bird = state.birds[index];
+  const player = bird.player;
+
+  const hitbox = birdHitbox(bird);
+  if (obstacleHitboxes(pipe).some(rect => checkRectCollide(hitbox, rect))) {
+    hit(state, index, events);
+  }
+
+  if (pipe.powerUp && !bird.crashed && checkRectCollide(hitbox, powerUpRect(pipe))) {
+    if (pipe.powerUp === 'SLOWMO') state.slowMotionTicks = POWER_UP_TICKS.SLOWMO;
+    else bird.powerUps[pipe.powerUp] = POWER_UP_TICKS[pipe.powerUp];
+    events.push({ type: 'powerUp', bird: index, powerUp: pipe.powerUp });
+    pipe.powerUp = undefined;
+  }
+
+  if (!pipe.passed[index] && hitbox.x + hitbox.w > pipe.x && hitbox.x < pipe.x + pipe.w) {
+    const room = Math.min(hitbox.y - pipe.y, pipe.y + pipe.gap - (hitbox.y + hitbox.h));
+    pipe.clearance[index] = Math.min(pipe.clearance[index], room);
+  }
+
+  // Forward Scoring
+  if (!pipe.passed[index] && pipe.x + pipe.w < player.x) {
+    pipe.passed[index] = true;
+    bird.score += bird.powerUps.DOUBLE ? 2 : 1;
+    events.push({ type: 'pipePassed', bird: index, score: bird.score, clearance: pipe.clearance[index] });
+    if (pipe.toast) {
+      events.push({ type: 'levelToast', bird: index, text: pipe.toast });
+      pipe.toast = undefined;
+    }
+  }
+
+  // Backward Pass Detection
+  // Condition: Pipe was passed (is to left of player usually), but now player is to left of pipe
+  if (pipe.passed[index] && !pipe.passedBackward[index] && player.x + player.w < pipe.x) {
+    pipe.passedBackward[index] = true;
+    bird.backwardStreak += 1;
+    events.push({ type: 'pipePassedBackward', bird: index, streak: bird.backwardStreak });
+
+    if (bird.backwardStreak === BACKWARD_BIRTHDAY_STREAK) {
+      bird.backwardBirthdays += 1;
+      events.push({ type: 'backwardBirthday', bird: index });
+      // Resetting allows triggering again for the next 5
+      bird.backwardStreak = 0;
+    }
+  }
+};
+
+// Advances the simulation by exactly one tick. Mutates `state` and returns what happened.
+// `inputs[i]` drives bird i; crashed birds stay where they fell.
+export function stepSimulation(state: SimState, inputs: SimInput[]): SimEvent[] {
+  const events: SimEvent[] = [];
+  if (state.crashed || state.completed) return events;
+
+  state.tick += 1;
+  const timeScale = state.slowMotionTicks > 0 ? SLOWMO_FACTOR : 1;
+
+  state.birds.forEach((bird, i) => {
+    if (!bird.crashed) stepBird(state, i, inputs[i] || NO_INPUT, events);
+  });
+
+  // Pipe Spawning
+  if (state.level) {
+    spawnLevelObstacles(state);
+  } else {
+    state.msSinceLastPipe += TICK_MS * timeScale;
+    if (state.msSinceLastPipe > state.settings.pipeInterval) {
+      spawnPipe(state);
+      state.msSinceLastPipe = 0;
+      state.coinDue = true;
+    } else if (state.coinDue && state.msSinceLastPipe > state.settings.pipeInterval / 2) {
+      spawnCoin(state);
+      state.coinDue = false;
+    }
+  }
+
+  // Pipe Movement & Collision
+  const speed = currentSettings(state).speed * timeScale;
+  const activePipes: Pipe[] = [];
+  state.pipes.forEach(pipe => {
+    pipe.x -= speed;
+    if (pipe.motion) pipe.y = gapTopAt(pipe, state.tick);
+    state.birds.forEach((bird, i) => {
+      if (!bird.crashed) checkPipe(state, i, pipe, events);
+    });
+    if (pipe.x + pipe.w > -50) {
+      activePipes.push(pipe);
+    }
+  });
+  state.pipes = activePipes;
+
+  // Coins: the first bird through one takes it
+  state.coins = state.coins.filter(coin => {
+    coin.x -= speed;
+    const taker = state.birds.findIndex(bird => !bird.crashed && checkRectCollide(birdHitbox(bird), coinRect(coin)));
+    if (taker >= 0) {
+      const bird = state.birds[taker];
+      bird.coins += 1;
+      events.push({ type: 'coin', bird: taker, coins: bird.coins });
+      return false;
+    }
+    return coin.x + COIN_SIZE > -50;
+  });
+
+  state.distance += speed;
+  if (state.slowMotionTicks > 0) state.slowMotionTicks -= 1;
+
+  state.crashed = state.birds.every(b => b.crashed);
+  if (
+    state.level && !state.crashed &&
+    state.nextObstacle >= state.levelObstacles.length &&
+    state.pipes.every(pipe => state.birds.every((b, i) => b.crashed || pipe.passed[i]))
+  ) {
+    state.completed = true;
+    events.push({ type: 'levelComplete' });
+  }
+  return events;
+}
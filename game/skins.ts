@@ -0,0 +1,51 @@
+// --- Skins & Pipe Themes ---
+// Cosmetics bought with coins in the shop. They only change how things are
+// drawn, never the hitboxes, so replays and ghosts look the same to the rules.
+
+export type FlagStyle = 'DENMARK' | 'SWEDEN' | 'NORWAY' | 'FAROE' | 'NONE';
+export const FLAG_STYLES: FlagStyle[] = ['DENMARK', 'SWEDEN', 'NORWAY', 'FAROE', 'NONE'];
+export type HatStyle = 'NONE' | 'PARTY' | 'CROWN' | 'CAP' | 'VIKING';
+
+export interface BirdSkin {
+  id: string; // Also the key of its name in the string catalogs
+  price: number;
+  body: string | null; // null keeps the bird's own colour (red for P1, blue for P2)
+  flag: FlagStyle; // DENMARK stands for the birthday person's own flag, see game/party.ts
+  hat: HatStyle;
+  arms?: boolean; // Flexed biceps instead of a wing
+}
+
+export interface PipeTheme {
+  id: string; // Also the key of its name in the string catalogs
+  price: number;
+  colors: [string, string, string]; // Light, mid and dark shade of the gradient
+}
+
+export const DEFAULT_SKIN = 'CLASSIC';
+export const DEFAULT_PIPE_THEME = 'GREEN';
+
+export const BIRD_SKINS: BirdSkin[] = [
+  { id: 'CLASSIC', price: 0, body: null, flag: 'DENMARK', hat: 'NONE' },
+  { id: 'PARTY', price: 15, body: '#FF69B4', flag: 'DENMARK', hat: 'PARTY' },
+  { id: 'SWEDE', price: 20, body: '#F1C40F', flag: 'SWEDEN', hat: 'NONE' },
+  { id: 'NORWAY', price: 20, body: '#ECF0F1', flag: 'NORWAY', hat: 'NONE' },
+  { id: 'FAROE', price: 25, body: '#2E86C1', flag: 'FAROE', hat: 'NONE' },
+  { id: 'VIKING', price: 40, body: '#A04000', flag: 'DENMARK', hat: 'VIKING' },
+  { id: 'KING', price: 75, body: '#8E44AD', flag: 'DENMARK', hat: 'CROWN' },
+  { id: 'MARCUS', price: 100, body: '#27AE60', flag: 'NONE', hat: 'CAP', arms: true },
+];
+
+export const PIPE_THEMES: PipeTheme[] = [
+  { id: 'GREEN', price: 0, colors: ['#73bf2e', '#9ce659', '#558c22'] },
+  { id: 'ICE', price: 20, colors: ['#85C1E9', '#D6EAF8', '#2E86C1'] },
+  { id: 'LAVA', price: 30, colors: ['#E74C3C', '#F5B041', '#922B21'] },
+  { id: 'GOLD', price: 60, colors: ['#D4AC0D', '#F9E79F', '#9A7D0A'] },
+];
+
+export function birdSkin(id: string): BirdSkin {
+  return BIRD_SKINS.find(s => s.id === id) || BIRD_SKINS[0];
+}
+
+export function pipeTheme(id: string): PipeTheme {
+  return PIPE_THEMES.find(t => t.id === id) || PIPE_THEMES[0];
+}
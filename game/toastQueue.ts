@@ -0,0 +1,101 @@
+// --- Toast Queue ---
+// The floating messages over the game. A few can be on screen at once,
+// stacked upwards, and each has a priority: chatter only ever replaces other
+// chatter, and a full stack makes room by dropping its least important toast,
+// so a backward birthday is never wiped by a score toast. What can't be shown
+// yet waits its turn, unless it has gone stale by then.
+
+export type ToastPriority = 'CHATTER' | 'COMMENT' | 'EVENT';
+
+const RANK: Record<ToastPriority, number> = { CHATTER: 0, COMMENT: 1, EVENT: 2 };
+
+// Ticks on screen
+const LIFE: Record<ToastPriority, number> = { CHATTER: 90, COMMENT: 120, EVENT: 150 };
+
+export const MAX_VISIBLE_TOASTS = 3;
+const MAX_WAIT = 90; // Ticks a waiting toast stays relevant
+const BASE_Y = 150;
+const LINE_HEIGHT = 36;
+const RISE = 0.8; // Pixels per tick
+
+export interface Toast {
+  text: string;
+  color: string;
+  priority: ToastPriority;
+  y: number;
+  life: number;
+  opacity: number;
+}
+
+interface WaitingToast {
+  text: string;
+  color: string;
+  priority: ToastPriority;
+  waited: number;
+}
+
+export class ToastQueue {
+  visible: Toast[] = []; // Newest first
+  waiting: WaitingToast[] = []; // Most important first
+
+  push(text: string, color: string, priority: ToastPriority) {
+    // The same message again just stays up longer
+    const shown = this.visible.find(toast => toast.text === text);
+    if (shown) {
+      shown.life = Math.max(shown.life, LIFE[priority]);
+      return;
+    }
+    if (priority === 'CHATTER') {
+      this.visible = this.visible.filter(toast => toast.priority !== 'CHATTER');
+      if (this.visible.length < MAX_VISIBLE_TOASTS) this.show(text, color, priority);
+      return;
+    }
+    if (this.visible.length >= MAX_VISIBLE_TOASTS && !this.makeRoom(priority)) {
+      const at = this.waiting.findIndex(waiting => RANK[waiting.priority] < RANK[priority]);
+      this.waiting.splice(at === -1 ? this.waiting.length : at, 0, { text, color, priority, waited: 0 });
+      return;
+    }
+    this.show(text, color, priority);
+  }
+
+  update() {
+    this.visible.forEach(toast => {
+      toast.y -= RISE;
+      toast.life -= 1;
+      toast.opacity = toast.life < 20 ? toast.life / 20 : 1;
+    });
+    this.visible = this.visible.filter(toast => toast.life > 0);
+
+    this.waiting.forEach(waiting => waiting.waited += 1);
+    this.waiting = this.waiting.filter(waiting => waiting.waited <= MAX_WAIT);
+    while (this.waiting.length > 0 && (this.visible.length < MAX_VISIBLE_TOASTS || this.makeRoom(this.waiting[0].priority))) {
+      const next = this.waiting.shift()!;
+      this.show(next.text, next.color, next.priority);
+    }
+
+    // Older toasts are pushed up so the stack never overlaps
+    for (let i = 1; i < this.visible.length; i++) {
+      this.visible[i].y = Math.min(this.visible[i].y, this.visible[i - 1].y - LINE_HEIGHT);
+    }
+  }
+
+  clear() {
+    this.visible = [];
+    this.waiting = [];
+  }
+
+  private show(text: string, color: string, priority: ToastPriority) {
+    this.visible.unshift({ text, color, priority, y: BASE_Y, life: LIFE[priority], opacity: 1 });
+  }
+
+  // Drops the oldest of the least important toasts, if it matters less than `priority`
+  private makeRoom(priority: ToastPriority): boolean {
+    let lowest = -1;
+    this.visible.forEach((toast, i) => {
+      if (lowest === -1 || RANK[toast.priority] <= RANK[this.visible[lowest].priority]) lowest = i;
+    });
+    if (lowest === -1 || RANK[this.visible[lowest].priority] >= RANK[priority]) return false;
+    this.visible.splice(lowest, 1);
+    return true;
+  }
+}
@@ -0,0 +1,100 @@
+import { Difficulty } from './constants';
+import { isDifficulty } from './difficulty';
+
+// --- Hot-seat Tournament ---
+// Round-robin: every guest flies one run per round, in the order entered, and
+// the standings rank by total score across all rounds (best run breaks ties).
+
+export const TOURNAMENT_VERSION = 1;
+export const MIN_GUESTS = 2;
+export const MAX_GUESTS = 12;
+export const MAX_ROUNDS = 5;
+
+export interface Tournament {
+  version: number;
+  names: string[];
+  rounds: number;
+  difficulty: Difficulty;
+  results: (number | null)[][]; // [guest][round], null until flown
+  turn: number; // Index into the round-major turn order
+  createdAt: string;
+}
+
+export interface Standing {
+  name: string;
+  total: number;
+  best: number;
+  played: number;
+}
+
+// Names identify guests in the standings, so blanks and duplicates (in any
+// case) are dropped. The setup counts these, not the rows typed in.
+export function guestNames(names: string[]): string[] {
+  return names
+    .map(n => n.trim())
+    .filter((n, i, all) => n && all.findIndex(o => o.toLowerCase() === n.toLowerCase()) === i)
+    .slice(0, MAX_GUESTS);
+}
+
+export function createTournament(names: string[], rounds: number, difficulty: Difficulty): Tournament {
+  const guests = guestNames(names);
+  const roundCount = Math.max(1, Math.min(MAX_ROUNDS, Math.floor(rounds)));
+  return {
+    version: TOURNAMENT_VERSION,
+    names: guests,
+    rounds: roundCount,
+    difficulty,
+    results: guests.map(() => Array(roundCount).fill(null)),
+    turn: 0,
+    createdAt: new Date().toISOString()
+  };
+}
+
+export function isFinished(t: Tournament): boolean {
+  return t.turn >= t.names.length * t.rounds;
+}
+
+// Whose turn it is, or null once every run has been flown
+export function currentTurn(t: Tournament): { guest: number; round: number } | null {
+  if (isFinished(t)) return null;
+  return { guest: t.turn % t.names.length, round: Math.floor(t.turn / t.names.length) };
+}
+
+export function recordResult(t: Tournament, score: number): Tournament {
+  const turn = currentTurn(t);
+  if (!turn) return t;
+  const results = t.results.map(r => [...r]);
+  results[turn.guest][turn.round] = score;
+  return { ...t, results, turn: t.turn + 1 };
+}
+
+export function standings(t: Tournament): Standing[] {
+  return t.names
+    .map((name, i) => {
+      const flown = t.results[i].filter((s): s is number => s !== null);
+      return {
+        name,
+        total: flown.reduce((sum, s) => sum + s, 0),
+        best: flown.length > 0 ? Math.max(...flown) : 0,
+        played: flown.length
+      };
+    })
+    .sort((a, b) => b.total - a.total || b.best - a.best);
+}
+
+const isResult = (value: unknown) => value === null || (typeof value === 'number' && isFinite(value));
+
+// Also checks the shape the turn order relies on, so a damaged save can't index past the results
+export function isTournament(value: any): value is Tournament {
+  return (
+    !!value &&
+    value.version === TOURNAMENT_VERSION &&
+    Array.isArray(value.names) && value.names.length > 0 &&
+    value.names.every((n: unknown) => typeof n === 'string') &&
+    Number.isInteger(value.rounds) && value.rounds >= 1 && value.rounds <= MAX_ROUNDS &&
+    isDifficulty(value.difficulty) &&
+    Array.isArray(value.results) && value.results.length === value.names.length &&
+    value.results.every((row: unknown) => Array.isArray(row) && row.length === value.rounds && row.every(isResult)) &&
+    Number.isInteger(value.turn) && value.turn >= 0 && value.turn <= value.names.length * value.rounds
+  );
+}
@@ -0,0 +1,373 @@
+import { plural } from './plural';
+import { Strings } from './strings';
+
+const days = (n: number) => plural('da', n, { one: '# dag', other: '# dage' });
+
+export const da: Strings = {
+  language: 'Dansk',
+
+  common: {
+    back: 'TILBAGE',
+    save: 'GEM',
+    delete: 'SLET',
+    export: 'EKSPORTÉR',
+    import: 'IMPORTÉR',
+    points: n => plural('da', n, { one: '# point', other: '# point' }),
+  },
+
+  difficulties: { EASY: 'LET', MEDIUM: 'MELLEM', HARD: 'SVÆR' },
+
+  actions: {
+    FLAP: 'Flap',
+    FLAP_P2: 'Flap (spiller 2)',
+    LEFT: 'Flyv tilbage',
+    RIGHT: 'Flyv frem',
+    PAUSE: 'Pause',
+    START: 'Start / Prøv igen',
+    MUTE: 'Lyd til/fra',
+    REWIND: 'Spol tilbage (øvelse)',
+  },
+
+  keys: { Space: 'Mellemrum' },
+
+  powerUps: {
+    SHIELD: 'SKJOLD!',
+    SLOWMO: 'SLOW MOTION!',
+    SHRINK: 'MINI-{NAME}!',
+    DOUBLE: 'DOBBELT POINT!',
+  },
+
+  obstacles: {
+    PIPE: 'Rør',
+    MOVING: 'Bevægeligt hul',
+    DOUBLE: 'Dobbeltrør',
+    SPIKES: 'Pigge',
+  },
+
+  themes: {
+    CLASSIC: { name: 'Klassisk', title: 'FLAPPY {NAME}' },
+    CAKE: { name: 'Kage', title: '🎂 PARTY {NAME} 🎂' },
+    NIGHT: { name: 'Nat', title: '🌙 NAT-{NAME} 🌙' },
+    CHRISTMAS: { name: 'Jul', title: '🎄 JULE-{NAME} 🎄' },
+    SUMMER: { name: 'Dansk sommer', title: '☀️ SOMMER-{NAME} ☀️' },
+  },
+
+  skins: {
+    CLASSIC: 'Klassisk {name}',
+    PARTY: 'Festabe',
+    SWEDE: 'Svensk-{name}',
+    NORWAY: 'Nordmanden',
+    FAROE: 'Færing',
+    VIKING: 'Viking',
+    KING: 'Kong {name}',
+    MARCUS: '{friend}',
+  },
+
+  pipeThemes: {
+    GREEN: 'Grønne rør',
+    ICE: 'Is',
+    LAVA: 'Lava',
+    GOLD: 'Guld',
+  },
+
+  flags: {
+    DENMARK: 'Danmark',
+    SWEDEN: 'Sverige',
+    NORWAY: 'Norge',
+    FAROE: 'Færøerne',
+    NONE: 'Intet flag',
+  },
+
+  achievements: {
+    FIRST_10: { name: 'Godt i gang', description: 'Få 10 point i ét spil' },
+    BACKWARD_5: { name: 'Baglæns er også en retning', description: 'Flyv baglæns gennem 5 rør i ét spil' },
+    DOUBLE_BIRTHDAY: { name: 'Dobbelt fødselsdag', description: 'Få to baglæns fødselsdage i ét spil' },
+    HARD_50: { name: 'Overarme af stål', description: 'Få 50 point på SVÆR' },
+    SURVIVE_60: { name: 'Et helt minut', description: 'Hold dig i luften i 60 sekunder' },
+    SHIELD_SAVE: { name: 'Reddet af skjoldet', description: 'Lad et skjold tage et sammenstød' },
+    COINS_10: { name: 'Sparegris', description: 'Saml 10 mønter i ét spil' },
+    LEVEL_COMPLETE: { name: 'Banebryder', description: 'Gennemfør en bane' },
+    CAKE_UNLOCKED: { name: 'Hemmelig kage', description: 'Find kage-hemmeligheden på startskærmen' },
+  },
+
+  player: n => `SPILLER ${n}`,
+
+  toasts: [
+    '{friend} hepper!',
+    '{friend}: Du har en fed bil!',
+    '{friend}: Jeg hepper på dig!',
+    '{friend}: Du er min største fan!',
+    '{friend}: Skal jeg vise mine overarme?',
+    '{friend}: Se mine overarme er vokset!',
+    '{friend} går helt amok!',
+    '{friend}: Kom så {name}!',
+    '{friend} tabte kæben!',
+    '{friend} er kæmpe fan!',
+    '{friend}: Det er snyd?!',
+    '{friend} skylder kage!',
+    '{friend}: Respekt!',
+    '{friend}: Du er for vild!',
+    '{friend} giver is!',
+    '{friend} ser op til dig!',
+    '{friend} klapper!',
+    '{friend}: Wow!',
+    '{friend}: Den er god nok!',
+    'Du er steget en level i år!',
+    'Mere kage til dig!',
+    'Fødselsdagskongen!',
+    'Kæmpe chef!',
+    'Flyvende {name}!',
+    'Turbo på!',
+    'Du vinder et stykke kage mere!',
+    'Mesterflyver!',
+    'Sådan skal det gøres!',
+    '{friend}: Du styrer!',
+    '{friend}: Kæmpe highfive!',
+    '{friend} tror på dig!',
+    '{friend}: Det er magi!',
+    '{friend} jubler!',
+    '{friend}: En gang til!',
+  ],
+
+  commentary: {
+    nearMiss: [
+      '{friend}: Det var TÆT på!',
+      '{friend}: Puha, lige på kanten!',
+      '{friend} holdt vejret!',
+      '{friend}: Der var ikke en millimeter til overs!',
+      '{friend}: Du strejfede næsten røret!',
+    ],
+    survival: [
+      seconds => `{friend}: ${seconds} sekunder i luften!`,
+      seconds => `${seconds} sekunder – {friend} er imponeret!`,
+      seconds => `{friend}: Stadig i live efter ${seconds} sekunder!`,
+    ],
+    recordClose: [
+      left => `{friend}: Kun ${da.common.points(left)} fra rekorden!`,
+      left => `{friend}: Rekorden er lige dér – ${left} til!`,
+      () => '{friend}: Du kan næsten røre rekorden!',
+    ],
+    newRecord: [
+      '🏆 {friend}: NY REKORD!',
+      '🏆 {friend} flipper ud – NY REKORD!',
+      '🏆 Rekorden er slået, {name}!',
+    ],
+    backward: [
+      '{friend}: Baglæns?! Hvad laver du?',
+      '{friend}: Forkert vej, {name}!',
+      '{friend}: Baglæns tæller også!',
+      '{friend} griner: Den anden vej!',
+    ],
+    crashAfterRecord: [
+      '{friend}: Nej! Lige efter rekorden!',
+      '{friend}: Du nåede da at slå den!',
+      '{friend}: Rekord og så BOM!',
+    ],
+  },
+
+  events: {
+    backwardBirthday: '🎂 BAGLÆNS FØDSELSDAG! 🎂',
+    playerBackwardBirthday: player => `🎂 ${player}: BAGLÆNS FØDSELSDAG! 🎂`,
+    levelComplete: '🏁 BANEN KLARET! 🏁',
+    tournamentWinner: name => `{friend}: Tillykke, ${name}!`,
+    soundOn: '🔊 LYD TIL',
+    soundOff: '🔇 LYD FRA',
+    achievementUnlocked: '🏆 TROFÆ LÅST OP',
+  },
+
+  start: {
+    difficulty: 'SVÆRHEDSGRAD',
+    newPreset: '＋ EGEN',
+    editPreset: '⚙️ REDIGÉR',
+    players: n => plural('da', n, { one: '# SPILLER', other: '# SPILLERE' }),
+    soloHelp: 'Mellemrum/↑ for at flappe, pile-tasterne/A-D for at flyve frem og tilbage!',
+    versusHelp: 'Spiller 1: mus/mellemrum · Spiller 2: højre Shift, 2. gamepad eller højre side af skærmen',
+    savedReplays: '🎬 GEMTE REPLAYS',
+    controls: '🎮 STYRING',
+    levelEditor: '🧱 BANE-EDITOR',
+    tournament: '🏆 TURNERING',
+    watchBot: '🤖 SE BOTTEN FLYVE',
+    rewindPractice: '⏪ ØV MED TILBAGESPOLING',
+    shop: '🛒 BUTIK',
+    trophies: '🏆 TROFÆER',
+    sound: 'LYD',
+    party: '🎉 FEST',
+    level: name => `🧱 Bane: ${name}`,
+    play: 'START SPIL',
+    tournamentTurn: name => `START – ${name}s TUR`,
+  },
+
+  hud: {
+    versusScore: (n, score) => `P${n}: ${score}`,
+    dailyAttempt: 'DAGENS FORSØG',
+    bot: '🤖 BOTTEN FLYVER',
+    rewinds: n => `⏪ ${plural('da', n, { one: '# tilbagespoling', other: '# tilbagespolinger' })}`,
+    rewindHelp: key => `Hold ${key} nede for at spole tilbage`,
+    practice: 'ØVELSE',
+    ghostDelta: delta => `👻 ${delta} mod BEDSTE`,
+  },
+
+  pause: {
+    title: 'PAUSE',
+    resume: 'FORTSÆT',
+    restart: 'START FORFRA',
+    menu: 'TIL MENUEN',
+  },
+
+  gameOver: {
+    title: 'SPILLET ER SLUT',
+    tagline: '"{friend} kommer og løfter dig op!"',
+    tournamentScore: (name, score) => `${name} fløj ${da.common.points(score)}`,
+    draw: '🤝 UAFGJORT!',
+    winner: player => `🏆 ${player} VINDER!`,
+    levelComplete: '🏁 BANEN KLARET!',
+    dailyStreak: n => `📅 DAGENS FORSØG · 🔥 ${days(n)} i træk`,
+    practice: '📅 ØVELSE – tæller ikke',
+    score: score => `Point: ${score}`,
+    coins: (earned, icon, total) => `+${earned} ${icon} · ${total} i alt`,
+    topScore: score => `Rekord: ${score}`,
+    newEntry: rank => `🏆 Du kom på top-listen som #${rank}! Skriv dit navn:`,
+    tryAgain: 'PRØV IGEN',
+    showPodium: '🏆 SE PODIET',
+    next: name => `NÆSTE: ${name}`,
+    watchReplay: 'SE REPLAY',
+    saveReplay: 'GEM REPLAY',
+    replaySaved: 'GEMT ✓',
+  },
+
+  scoreboard: {
+    tabs: { LOCAL: 'LOKAL', ALL: 'GLOBAL', WEEK: 'UGENS' },
+    localTitle: size => `🏆 TOP ${size}`,
+    globalTitle: '🌍 GLOBAL TOP',
+    weekTitle: '📅 UGENS TOP',
+    empty: 'Ingen rekorder endnu!',
+    loading: 'Henter…',
+    customLocalOnly: 'Egne sværhedsgrader har kun en lokal top 5',
+    serverUnreachable: 'Serveren kan ikke nås – viser lokal top 5',
+    noServer: 'Ingen server sat op – viser lokal top 5',
+    pending: n => plural('da', n, { one: '# score venter på at blive sendt', other: '# scores venter på at blive sendt' }),
+    saveServer: 'GEM SERVER',
+  },
+
+  ghosts: {
+    title: '👻 GHOST RACE',
+    on: 'TIL',
+    off: 'FRA',
+    best: 'DIN BEDSTE',
+    rival: 'VENS GHOST',
+    clearRival: 'FJERN VENS GHOST',
+  },
+
+  daily: {
+    title: '📅 DAGENS UDFORDRING',
+    sameForEveryone: 'Samme rør for alle i dag',
+    streak: n => `🔥 ${days(n)} i træk`,
+    noStreak: 'Start en stime!',
+    played: score => `Dagens forsøg: ${score ?? 'afbrudt'}`,
+    play: '▶ DAGENS FORSØG',
+    practice: 'ØV',
+  },
+
+  shop: {
+    title: '🛒 BUTIK',
+    help: 'Flyv gennem mønterne mellem rørene for at samle dem',
+    skins: 'SKINS',
+    pipes: 'RØR',
+    equipped: '✓ VALGT',
+    equip: 'VÆLG',
+  },
+
+  trophies: {
+    title: '🏆 TROFÆER',
+    secret: 'Hemmelig',
+  },
+
+  audio: {
+    title: '🔊 LYD',
+    master: 'Samlet',
+    music: 'Musik',
+    sfx: 'Effekter',
+    mute: '🔈 SLÅ LYDEN FRA',
+    muted: '🔇 LYDEN ER SLÅET FRA',
+    hotkey: key => `Tryk ${key} for at slå lyden til og fra, også midt i et spil`,
+  },
+
+  party: {
+    title: '🎉 HVIS FØDSELSDAG?',
+    name: 'Fødselar',
+    friend: 'Hepper',
+    flag: 'Flag',
+    body: 'Farve',
+    playerColor: 'Spillerens farve',
+    cheers: max => `Egne heppe-råb, ét pr. linje (højst ${max})`,
+    copyLink: '🔗 KOPIÉR LINK',
+    copied: 'KOPIERET ✓',
+    copyFailed: 'Kopiér linket herunder',
+    reset: 'NULSTIL',
+  },
+
+  controls: {
+    title: '🎮 STYRING',
+    capturing: 'Tryk på en tast…',
+    help: 'Musen og touch flapper altid. Esc annullerer.',
+    reset: 'NULSTIL',
+  },
+
+  difficultyEditor: {
+    edit: name => `REDIGÉR ${name}`,
+    create: 'NY SVÆRHEDSGRAD',
+    name: 'Navn',
+    settings: {
+      speed: 'Fart',
+      gap: 'Hul',
+      gravity: 'Tyngdekraft',
+      jump: 'Hop',
+      pipeInterval: 'Rør-afstand (ms)',
+    },
+    ramp: '📈 RAMPE – sværere jo flere point',
+    rampSettings: {
+      speedPerPoint: 'Fart pr. point',
+      gapPerPoint: 'Hul pr. point',
+      maxSpeed: 'Max fart',
+      minGap: 'Mindste hul',
+    },
+    gapVariance: 'Hul-variation (±px)',
+    obstacleMix: '🧱 FORHINDRINGER – hvor tit hver kommer (alle 0: kun rør)',
+  },
+
+  levelEditor: {
+    title: '🧱 BANE-EDITOR',
+    obstacles: n => plural('da', n, { one: '# forhindring', other: '# forhindringer' }),
+    gap: 'Hul',
+    toastPlaceholder: 'Toast når den passeres',
+    help: 'Klik for at sætte et rør, træk for at flytte det, scroll for at se resten af banen',
+    test: '▶ TEST',
+    play: 'SPIL BANEN',
+    clear: 'RYD',
+  },
+
+  tournament: {
+    title: difficulty => `🏆 TURNERING (${difficulty})`,
+    newTitle: difficulty => `🏆 NY TURNERING (${difficulty})`,
+    round: (round, rounds) => `Runde ${round}/${rounds}`,
+    next: 'Næste',
+    abort: 'AFBRYD TURNERING',
+    guest: n => `Gæst ${n}`,
+    addGuest: '+ GÆST',
+    rounds: 'RUNDER:',
+    start: 'START TURNERING',
+    finished: '🎉 TURNERINGEN ER SLUT 🎉',
+    newTournament: 'NY TURNERING',
+    menu: 'TIL MENUEN',
+  },
+
+  replay: {
+    close: 'LUK REPLAY',
+  },
+
+  errors: {
+    scoreFile: 'Filen er ikke en gyldig rekordliste',
+    ghostFile: 'Filen er ikke en gyldig ghost-fil',
+    levelFile: 'Filen er ikke en gyldig bane-fil',
+  },
+};
@@ -0,0 +1,373 @@
+import { plural } from './plural';
+import { Strings } from './strings';
+
+const days = (n: number) => plural('en', n, { one: '# day', other: '# days' });
+
+export const en: Strings = {
+  language: 'English',
+
+  common: {
+    back: 'BACK',
+    save: 'SAVE',
+    delete: 'DELETE',
+    export: 'EXPORT',
+    import: 'IMPORT',
+    points: n => plural('en', n, { one: '# point', other: '# points' }),
+  },
+
+  difficulties: { EASY: 'EASY', MEDIUM: 'MEDIUM', HARD: 'HARD' },
+
+  actions: {
+    FLAP: 'Flap',
+    FLAP_P2: 'Flap (player 2)',
+    LEFT: 'Fly backwards',
+    RIGHT: 'Fly forwards',
+    PAUSE: 'Pause',
+    START: 'Start / Try again',
+    MUTE: 'Sound on/off',
+    REWIND: 'Rewind (practice)',
+  },
+
+  keys: { Space: 'Space' },
+
+  powerUps: {
+    SHIELD: 'SHIELD!',
+    SLOWMO: 'SLOW MOTION!',
+    SHRINK: 'MINI-{NAME}!',
+    DOUBLE: 'DOUBLE POINTS!',
+  },
+
+  obstacles: {
+    PIPE: 'Pipe',
+    MOVING: 'Moving gap',
+    DOUBLE: 'Double pipe',
+    SPIKES: 'Spikes',
+  },
+
+  themes: {
+    CLASSIC: { name: 'Classic', title: 'FLAPPY {NAME}' },
+    CAKE: { name: 'Cake', title: '🎂 PARTY {NAME} 🎂' },
+    NIGHT: { name: 'Night', title: '🌙 NIGHT {NAME} 🌙' },
+    CHRISTMAS: { name: 'Christmas', title: '🎄 CHRISTMAS {NAME} 🎄' },
+    SUMMER: { name: 'Danish summer', title: '☀️ SUMMER {NAME} ☀️' },
+  },
+
+  skins: {
+    CLASSIC: 'Classic {name}',
+    PARTY: 'Party animal',
+    SWEDE: 'Swedish {name}',
+    NORWAY: 'The Norwegian',
+    FAROE: 'Faroe Islander',
+    VIKING: 'Viking',
+    KING: 'King {name}',
+    MARCUS: '{friend}',
+  },
+
+  pipeThemes: {
+    GREEN: 'Green pipes',
+    ICE: 'Ice',
+    LAVA: 'Lava',
+    GOLD: 'Gold',
+  },
+
+  flags: {
+    DENMARK: 'Denmark',
+    SWEDEN: 'Sweden',
+    NORWAY: 'Norway',
+    FAROE: 'Faroe Islands',
+    NONE: 'No flag',
+  },
+
+  achievements: {
+    FIRST_10: { name: 'Off to a good start', description: 'Score 10 points in one game' },
+    BACKWARD_5: { name: 'Backwards is a direction too', description: 'Fly backwards through 5 pipes in one game' },
+    DOUBLE_BIRTHDAY: { name: 'Double birthday', description: 'Get two backwards birthdays in one game' },
+    HARD_50: { name: 'Biceps of steel', description: 'Score 50 points on HARD' },
+    SURVIVE_60: { name: 'A whole minute', description: 'Stay in the air for 60 seconds' },
+    SHIELD_SAVE: { name: 'Saved by the shield', description: 'Let a shield take a hit' },
+    COINS_10: { name: 'Piggy bank', description: 'Collect 10 coins in one game' },
+    LEVEL_COMPLETE: { name: 'Trailblazer', description: 'Complete a level' },
+    CAKE_UNLOCKED: { name: 'Secret cake', description: 'Find the cake secret on the start screen' },
+  },
+
+  player: n => `PLAYER ${n}`,
+
+  toasts: [
+    '{friend} is cheering!',
+    '{friend}: You have a sweet car!',
+    '{friend}: I\'m rooting for you!',
+    '{friend}: You\'re my biggest fan!',
+    '{friend}: Want to see my biceps?',
+    '{friend}: Look, my biceps grew!',
+    '{friend} is going wild!',
+    '{friend}: Come on {name}!',
+    '{friend}\'s jaw dropped!',
+    '{friend} is a huge fan!',
+    '{friend}: That\'s cheating?!',
+    '{friend} owes you cake!',
+    '{friend}: Respect!',
+    '{friend}: You\'re unreal!',
+    '{friend} buys ice cream!',
+    '{friend} looks up to you!',
+    '{friend} is clapping!',
+    '{friend}: Wow!',
+    '{friend}: That\'ll do!',
+    'You levelled up this year!',
+    'More cake for you!',
+    'The birthday king!',
+    'Big boss!',
+    'Flying {name}!',
+    'Turbo on!',
+    'You win another slice of cake!',
+    'Master pilot!',
+    'That\'s how it\'s done!',
+    '{friend}: You rule!',
+    '{friend}: Huge high five!',
+    '{friend} believes in you!',
+    '{friend}: It\'s magic!',
+    '{friend} cheers!',
+    '{friend}: One more time!',
+  ],
+
+  commentary: {
+    nearMiss: [
+      '{friend}: That was CLOSE!',
+      '{friend}: Phew, right on the edge!',
+      '{friend} held their breath!',
+      '{friend}: Not a millimetre to spare!',
+      '{friend}: You almost grazed that pipe!',
+    ],
+    survival: [
+      seconds => `{friend}: ${seconds} seconds in the air!`,
+      seconds => `${seconds} seconds – {friend} is impressed!`,
+      seconds => `{friend}: Still alive after ${seconds} seconds!`,
+    ],
+    recordClose: [
+      left => `{friend}: Only ${en.common.points(left)} from the record!`,
+      left => `{friend}: The record is right there – ${left} to go!`,
+      () => '{friend}: You can almost touch the record!',
+    ],
+    newRecord: [
+      '🏆 {friend}: NEW RECORD!',
+      '🏆 {friend} is freaking out – NEW RECORD!',
+      '🏆 Record broken, {name}!',
+    ],
+    backward: [
+      '{friend}: Backwards?! What are you doing?',
+      '{friend}: Wrong way, {name}!',
+      '{friend}: Backwards counts too!',
+      '{friend} laughs: The other way!',
+    ],
+    crashAfterRecord: [
+      '{friend}: No! Right after the record!',
+      '{friend}: At least you beat it!',
+      '{friend}: A record and then BOOM!',
+    ],
+  },
+
+  events: {
+    backwardBirthday: '🎂 BACKWARDS BIRTHDAY! 🎂',
+    playerBackwardBirthday: player => `🎂 ${player}: BACKWARDS BIRTHDAY! 🎂`,
+    levelComplete: '🏁 LEVEL COMPLETE! 🏁',
+    tournamentWinner: name => `{friend}: Congratulations, ${name}!`,
+    soundOn: '🔊 SOUND ON',
+    soundOff: '🔇 SOUND OFF',
+    achievementUnlocked: '🏆 TROPHY UNLOCKED',
+  },
+
+  start: {
+    difficulty: 'DIFFICULTY',
+    newPreset: '＋ CUSTOM',
+    editPreset: '⚙️ EDIT',
+    players: n => plural('en', n, { one: '# PLAYER', other: '# PLAYERS' }),
+    soloHelp: 'Space/↑ to flap, arrow keys/A-D to fly forwards and backwards!',
+    versusHelp: 'Player 1: mouse/space · Player 2: right Shift, 2nd gamepad or right side of the screen',
+    savedReplays: '🎬 SAVED REPLAYS',
+    controls: '🎮 CONTROLS',
+    levelEditor: '🧱 LEVEL EDITOR',
+    tournament: '🏆 TOURNAMENT',
+    watchBot: '🤖 WATCH THE BOT',
+    rewindPractice: '⏪ REWIND PRACTICE',
+    shop: '🛒 SHOP',
+    trophies: '🏆 TROPHIES',
+    sound: 'SOUND',
+    party: '🎉 PARTY',
+    level: name => `🧱 Level: ${name}`,
+    play: 'START GAME',
+    tournamentTurn: name => `START – ${name}'s TURN`,
+  },
+
+  hud: {
+    versusScore: (n, score) => `P${n}: ${score}`,
+    dailyAttempt: 'DAILY ATTEMPT',
+    bot: '🤖 THE BOT IS FLYING',
+    rewinds: n => `⏪ ${plural('en', n, { one: '# rewind', other: '# rewinds' })}`,
+    rewindHelp: key => `Hold ${key} to rewind`,
+    practice: 'PRACTICE',
+    ghostDelta: delta => `👻 ${delta} vs BEST`,
+  },
+
+  pause: {
+    title: 'PAUSED',
+    resume: 'RESUME',
+    restart: 'RESTART',
+    menu: 'MAIN MENU',
+  },
+
+  gameOver: {
+    title: 'GAME OVER',
+    tagline: '"{friend} is coming to lift you up!"',
+    tournamentScore: (name, score) => `${name} flew ${en.common.points(score)}`,
+    draw: '🤝 DRAW!',
+    winner: player => `🏆 ${player} WINS!`,
+    levelComplete: '🏁 LEVEL COMPLETE!',
+    dailyStreak: n => `📅 DAILY ATTEMPT · 🔥 ${days(n)} in a row`,
+    practice: '📅 PRACTICE – doesn\'t count',
+    score: score => `Score: ${score}`,
+    coins: (earned, icon, total) => `+${earned} ${icon} · ${total} in total`,
+    topScore: score => `Top Score: ${score}`,
+    newEntry: rank => `🏆 You made the top list at #${rank}! Enter your name:`,
+    tryAgain: 'TRY AGAIN',
+    showPodium: '🏆 SHOW PODIUM',
+    next: name => `NEXT: ${name}`,
+    watchReplay: 'WATCH REPLAY',
+    saveReplay: 'SAVE REPLAY',
+    replaySaved: 'SAVED ✓',
+  },
+
+  scoreboard: {
+    tabs: { LOCAL: 'LOCAL', ALL: 'GLOBAL', WEEK: 'THIS WEEK' },
+    localTitle: size => `🏆 TOP ${size}`,
+    globalTitle: '🌍 GLOBAL TOP',
+    weekTitle: '📅 THIS WEEK\'S TOP',
+    empty: 'No records yet!',
+    loading: 'Loading…',
+    customLocalOnly: 'Custom difficulties only have a local top 5',
+    serverUnreachable: 'Can\'t reach the server – showing local top 5',
+    noServer: 'No server set up – showing local top 5',
+    pending: n => plural('en', n, { one: '# score waiting to be sent', other: '# scores waiting to be sent' }),
+    saveServer: 'SAVE SERVER',
+  },
+
+  ghosts: {
+    title: '👻 GHOST RACE',
+    on: 'ON',
+    off: 'OFF',
+    best: 'YOUR BEST',
+    rival: 'FRIEND\'S GHOST',
+    clearRival: 'REMOVE FRIEND\'S GHOST',
+  },
+
+  daily: {
+    title: '📅 DAILY CHALLENGE',
+    sameForEveryone: 'Same pipes for everyone today',
+    streak: n => `🔥 ${days(n)} in a row`,
+    noStreak: 'Start a streak!',
+    played: score => `Today's attempt: ${score ?? 'abandoned'}`,
+    play: '▶ DAILY ATTEMPT',
+    practice: 'PRACTICE',
+  },
+
+  shop: {
+    title: '🛒 SHOP',
+    help: 'Fly through the coins between the pipes to collect them',
+    skins: 'SKINS',
+    pipes: 'PIPES',
+    equipped: '✓ EQUIPPED',
+    equip: 'EQUIP',
+  },
+
+  trophies: {
+    title: '🏆 TROPHIES',
+    secret: 'Secret',
+  },
+
+  audio: {
+    title: '🔊 SOUND',
+    master: 'Master',
+    music: 'Music',
+    sfx: 'Effects',
+    mute: '🔈 MUTE',
+    muted: '🔇 SOUND IS MUTED',
+    hotkey: key => `Press ${key} to mute and unmute, even mid-game`,
+  },
+
+  party: {
+    title: '🎉 WHOSE BIRTHDAY?',
+    name: 'Birthday',
+    friend: 'Cheering',
+    flag: 'Flag',
+    body: 'Colour',
+    playerColor: 'Player colour',
+    cheers: max => `Your own cheers, one per line (at most ${max})`,
+    copyLink: '🔗 COPY LINK',
+    copied: 'COPIED ✓',
+    copyFailed: 'Copy the link below',
+    reset: 'RESET',
+  },
+
+  controls: {
+    title: '🎮 CONTROLS',
+    capturing: 'Press a key…',
+    help: 'Mouse and touch always flap. Esc cancels.',
+    reset: 'RESET',
+  },
+
+  difficultyEditor: {
+    edit: name => `EDIT ${name}`,
+    create: 'NEW DIFFICULTY',
+    name: 'Name',
+    settings: {
+      speed: 'Speed',
+      gap: 'Gap',
+      gravity: 'Gravity',
+      jump: 'Jump',
+      pipeInterval: 'Pipe spacing (ms)',
+    },
+    ramp: '📈 RAMP – harder the more points',
+    rampSettings: {
+      speedPerPoint: 'Speed per point',
+      gapPerPoint: 'Gap per point',
+      maxSpeed: 'Max speed',
+      minGap: 'Smallest gap',
+    },
+    gapVariance: 'Gap variance (±px)',
+    obstacleMix: '🧱 OBSTACLES – how often each one comes (all 0: only pipes)',
+  },
+
+  levelEditor: {
+    title: '🧱 LEVEL EDITOR',
+    obstacles: n => plural('en', n, { one: '# obstacle', other: '# obstacles' }),
+    gap: 'Gap',
+    toastPlaceholder: 'Toast when passed',
+    help: 'Click to place a pipe, drag to move it, scroll to see the rest of the level',
+    test: '▶ TEST',
+    play: 'PLAY LEVEL',
+    clear: 'CLEAR',
+  },
+
+  tournament: {
+    title: difficulty => `🏆 TOURNAMENT (${difficulty})`,
+    newTitle: difficulty => `🏆 NEW TOURNAMENT (${difficulty})`,
+    round: (round, rounds) => `Round ${round}/${rounds}`,
+    next: 'Next',
+    abort: 'END TOURNAMENT',
+    guest: n => `Guest ${n}`,
+    addGuest: '+ GUEST',
+    rounds: 'ROUNDS:',
+    start: 'START TOURNAMENT',
+    finished: '🎉 THE TOURNAMENT IS OVER 🎉',
+    newTournament: 'NEW TOURNAMENT',
+    menu: 'MAIN MENU',
+  },
+
+  replay: {
+    close: 'CLOSE REPLAY',
+  },
+
+  errors: {
+    scoreFile: 'The file is not a valid high score list',
+    ghostFile: 'The file is not a valid ghost file',
+    levelFile: 'The file is not a valid level file',
+  },
+};
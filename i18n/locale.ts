@@ -0,0 +1,39 @@
+import { Difficulty } from '../game/constants';
+import { difficultyLabel, isCustomDifficulty } from '../game/difficulty';
+import { da } from './da';
+import { en } from './en';
+import { Strings } from './strings';
+
+// --- Locales ---
+
+export type Locale = 'da' | 'en';
+
+export const LOCALES: Locale[] = ['da', 'en'];
+
+export const DEFAULT_LOCALE: Locale = 'da';
+
+const CATALOGS: Record<Locale, Strings> = { da, en };
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as string[]).includes(value);
+}
+
+// First of the browser's preferred languages we have, by primary subtag ('en-GB' is 'en')
+export function detectLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const primary = language.toLowerCase().split('-')[0];
+    if (isLocale(primary)) return primary;
+    // Norwegian and Swedish readers get on better with Danish than English
+    if (primary === 'nb' || primary === 'nn' || primary === 'no' || primary === 'sv') return 'da';
+  }
+  return DEFAULT_LOCALE;
+}
+
+export function getStrings(locale: Locale): Strings {
+  return CATALOGS[locale];
+}
+
+// Presets are translated; custom presets are shown by the name the player gave them
+export function difficultyName(t: Strings, difficulty: Difficulty): string {
+  return isCustomDifficulty(difficulty) ? difficultyLabel(difficulty) : t.difficulties[difficulty];
+}
@@ -0,0 +1,26 @@
+import { PartyConfig } from '../game/party';
+import { Strings } from './strings';
+
+// --- Personalising ---
+// Fills the party's names into a catalog. Functions are wrapped so whatever
+// they return is filled in too; custom cheers replace the built-in toasts.
+
+const TOKENS = /\{(name|NAME|friend)\}/g;
+
+function fill(value: any, party: PartyConfig): any {
+  if (typeof value === 'string') {
+    return value.replace(TOKENS, (_, token: string) =>
+      token === 'name' ? party.name : token === 'NAME' ? party.name.toUpperCase() : party.friend);
+  }
+  if (typeof value === 'function') return (...args: any[]) => fill(value(...args), party);
+  if (Array.isArray(value)) return value.map(item => fill(item, party));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fill(item, party)]));
+  }
+  return value;
+}
+
+export function personalise(strings: Strings, party: PartyConfig): Strings {
+  const filled: Strings = fill(strings, party);
+  return party.cheers.length > 0 ? { ...filled, toasts: party.cheers } : filled;
+}
@@ -0,0 +1,25 @@
+// --- Plurals ---
+// Picks the CLDR plural form for a count and puts the count in place of '#'.
+// Danish and English only need 'one' and 'other', but the rules come from
+// Intl so another locale can add its own forms without touching this.
+
+export interface PluralForms {
+  zero?: string;
+  one?: string;
+  two?: string;
+  few?: string;
+  many?: string;
+  other: string;
+}
+
+const rules = new Map<string, Intl.PluralRules>();
+
+export function plural(locale: string, count: number, forms: PluralForms): string {
+  let rule = rules.get(locale);
+  if (!rule) {
+    rule = new Intl.PluralRules(locale);
+    rules.set(locale, rule);
+  }
+  const form = forms[rule.select(count) as keyof PluralForms] ?? forms.other;
+  return form.replace('#', String(count));
+}
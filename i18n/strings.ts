@@ -0,0 +1,243 @@
+import { ObstacleType, PresetDifficulty, RampCurve } from '../game/constants';
+import { SETTING_LIMITS } from '../game/difficulty';
+import { AchievementId } from '../game/achievements';
+import { PowerUpType } from '../game/powerups';
+import { FlagStyle } from '../game/skins';
+import { Action } from '../input/bindings';
+import { ThemeId } from '../themes/themes';
+
+// --- String Catalog ---
+// Every text the player can see, per locale. Anything with a number or a name
+// in it is a function so each language can put it where its grammar wants it.
+
+export interface Strings {
+  language: string; // Shown in the language switcher, in its own language
+
+  common: {
+    back: string;
+    save: string;
+    delete: string;
+    export: string;
+    import: string;
+    points: (n: number) => string;
+  };
+
+  difficulties: Record<PresetDifficulty, string>;
+  actions: Record<Action, string>;
+  keys: Record<string, string>; // Names of keys by KeyboardEvent.code, where they have one
+  powerUps: Record<PowerUpType, string>;
+  obstacles: Record<ObstacleType, string>;
+  themes: Record<ThemeId, { name: string; title: string }>;
+  skins: Record<string, string>; // By skin id
+  pipeThemes: Record<string, string>; // By pipe theme id
+  flags: Record<FlagStyle, string>;
+  achievements: Record<AchievementId, { name: string; description: string }>;
+
+  player: (n: number) => string; // 1-based
+  toasts: string[]; // Random cheers when a pipe is passed and nothing else happened
+
+  // What the friend says about what just happened, by situation (see game/commentary.ts)
+  commentary: {
+    nearMiss: string[];
+    survival: ((seconds: number) => string)[];
+    recordClose: ((left: number) => string)[];
+    newRecord: string[];
+    backward: string[];
+    crashAfterRecord: string[];
+  };
+
+  events: {
+    backwardBirthday: string;
+    playerBackwardBirthday: (player: string) => string;
+    levelComplete: string;
+    tournamentWinner: (name: string) => string;
+    soundOn: string;
+    soundOff: string;
+    achievementUnlocked: string;
+  };
+
+  start: {
+    difficulty: string;
+    newPreset: string;
+    editPreset: string;
+    players: (n: number) => string;
+    soloHelp: string;
+    versusHelp: string;
+    savedReplays: string;
+    controls: string;
+    levelEditor: string;
+    tournament: string;
+    watchBot: string;
+    rewindPractice: string;
+    shop: string;
+    trophies: string;
+    sound: string;
+    party: string;
+    level: (name: string) => string;
+    play: string;
+    tournamentTurn: (name: string) => string;
+  };
+
+  hud: {
+    versusScore: (n: number, score: number) => string;
+    dailyAttempt: string;
+    bot: string;
+    rewinds: (n: number) => string;
+    rewindHelp: (key: string) => string;
+    practice: string;
+    ghostDelta: (delta: string) => string;
+  };
+
+  pause: {
+    title: string;
+    resume: string;
+    restart: string;
+    menu: string;
+  };
+
+  gameOver: {
+    title: string;
+    tagline: string;
+    tournamentScore: (name: string, score: number) => string;
+    draw: string;
+    winner: (player: string) => string;
+    levelComplete: string;
+    dailyStreak: (days: number) => string;
+    practice: string;
+    score: (score: number) => string;
+    coins: (earned: number, icon: string, total: number) => string;
+    topScore: (score: number) => string;
+    newEntry: (rank: number) => string;
+    tryAgain: string;
+    showPodium: string;
+    next: (name: string) => string;
+    watchReplay: string;
+    saveReplay: string;
+    replaySaved: string;
+  };
+
+  scoreboard: {
+    tabs: { LOCAL: string; ALL: string; WEEK: string };
+    localTitle: (size: number) => string;
+    globalTitle: string;
+    weekTitle: string;
+    empty: string;
+    loading: string;
+    customLocalOnly: string;
+    serverUnreachable: string;
+    noServer: string;
+    pending: (n: number) => string;
+    saveServer: string;
+  };
+
+  ghosts: {
+    title: string;
+    on: string;
+    off: string;
+    best: string;
+    rival: string;
+    clearRival: string;
+  };
+
+  daily: {
+    title: string;
+    sameForEveryone: string;
+    streak: (days: number) => string;
+    noStreak: string;
+    played: (score: number | null) => string;
+    play: string;
+    practice: string;
+  };
+
+  shop: {
+    title: string;
+    help: string;
+    skins: string;
+    pipes: string;
+    equipped: string;
+    equip: string;
+  };
+
+  trophies: {
+    title: string;
+    secret: string;
+  };
+
+  audio: {
+    title: string;
+    master: string;
+    music: string;
+    sfx: string;
+    mute: string;
+    muted: string;
+    hotkey: (key: string) => string;
+  };
+
+  party: {
+    title: string;
+    name: string;
+    friend: string;
+    flag: string;
+    body: string;
+    playerColor: string;
+    cheers: (max: number) => string;
+    copyLink: string;
+    copied: string;
+    copyFailed: string;
+    reset: string;
+  };
+
+  controls: {
+    title: string;
+    capturing: string;
+    help: string;
+    reset: string;
+  };
+
+  difficultyEditor: {
+    edit: (name: string) => string;
+    create: string;
+    name: string;
+    settings: Record<keyof typeof SETTING_LIMITS, string>;
+    ramp: string;
+    rampSettings: Record<keyof RampCurve, string>;
+    gapVariance: string;
+    obstacleMix: string;
+  };
+
+  levelEditor: {
+    title: string;
+    obstacles: (n: number) => string;
+    gap: string;
+    toastPlaceholder: string;
+    help: string;
+    test: string;
+    play: string;
+    clear: string;
+  };
+
+  tournament: {
+    title: (difficulty: string) => string;
+    newTitle: (difficulty: string) => string;
+    round: (round: number, rounds: number) => string;
+    next: string;
+    abort: string;
+    guest: (n: number) => string;
+    addGuest: string;
+    rounds: string;
+    start: string;
+    finished: string;
+    newTournament: string;
+    menu: string;
+  };
+
+  replay: {
+    close: string;
+  };
+
+  errors: {
+    scoreFile: string;
+    ghostFile: string;
+    levelFile: string;
+  };
+}
@@ -0,0 +1,10 @@
+import { createContext, useContext } from 'react';
+import { DEFAULT_LOCALE, getStrings } from './locale';
+import { Strings } from './strings';
+
+// The game provides the catalog for the chosen locale; components read it from here
+export const StringsContext = createContext<Strings>(getStrings(DEFAULT_LOCALE));
+
+export function useStrings(): Strings {
+  return useContext(StringsContext);
+}
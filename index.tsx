@@ -1,76 +1,112 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { createRoot } from 'react-dom/client';
+import { CANVAS_HEIGHT, CANVAS_WIDTH, Difficulty, DifficultySettings } from './game/constants';
+import { CustomPresets, PRESET_DIFFICULTIES, customDifficulty, difficultyLabel, isCustomDifficulty, resolveDifficulty } from './game/difficulty';
+import { Rng, createRng, nextFloat, randomSeed } from './game/rng';
+import { COIN_SIZE, Coin, ObstacleShape, PIPE_WIDTH, Pipe, Player, SPIKE_WIDTH, SimEvent, SimInput, SimState, TICK_MS, createPlayer, createSimulation, obstacleColumns, obstacleWidth, powerUpRect, spikeTeeth, stepSimulation } from './game/simulation';
+import { Level, PlacedObstacle, clampObstacle, levelFromPlaced, placeObstacles } from './game/level';
+import { POWER_UP_SIZE, PowerUpType, SHRINK_FACTOR } from './game/powerups';
+import { BIRD_SKINS, BirdSkin, FlagStyle, birdSkin, pipeTheme } from './game/skins';
+import { DEFAULT_THEME, THEMES, getTheme } from './themes/themes';
+import { ACHIEVEMENTS, AchievementId, RunStats, achievement, createRunStats, earnedAchievements, trackEvents } from './game/achievements';
+import { Song } from './audio/songs';
+import { Sequencer } from './audio/Sequencer';
+import { PlaybackCursor, RunRecording, createPlaybackCursor, createRecording, finishRecording, readRecordedInput, recordInput, recordingSettings } from './game/replay';
+import { deleteReplay, loadReplays, saveReplay } from './storage/replays';
+import { GhostSource, GhostStore, clearRivalGhost, ghostSlots, exportGhostFile, loadGhosts, readGhostFile, saveBestGhost, saveRivalGhost } from './storage/ghosts';
+import { loadBindings, saveBindings } from './storage/bindings';
+import { Action, Bindings, keyLabel } from './input/bindings';
+import { ActionListener, InputManager, InputSource } from './input/InputManager';
+import { ShopCategory, ShopState, addCoins, buyItem, equipItem, loadShop } from './storage/shop';
+import { ThemeSettings, loadThemeSettings, saveThemeSettings } from './storage/themes';
+import { AudioSettings, loadAudioSettings, saveAudioSettings } from './storage/audio';
+import { UnlockedAchievements, loadAchievements, unlockAchievements } from './storage/achievements';
+import { DailyState, beginDailyAttempt, currentStreak, hasPlayedDaily, loadDaily, recordDailyResult } from './storage/daily';
+import { DAILY_DIFFICULTY, dailySeed, dayKey } from './game/daily';
+import { PartyConfig, partyFlag } from './game/party';
+import { Commentator, Remark } from './game/commentary';
+import { ToastPriority, ToastQueue } from './game/toastQueue';
+import { botInput } from './game/bot';
+import { CRASH_REWIND_TICKS, RewindBuffer } from './game/rewind';
+import { GameEventBus, GameEventOf, bridgeToWindow, gameEvents } from './events/GameEventBus';
+import { useGameEvent } from './events/useGameEvent';
+import { LOCALES, Locale, difficultyName, getStrings } from './i18n/locale';
+import { StringsContext, useStrings } from './i18n/useStrings';
+import { loadLocale, saveLocale } from './storage/locale';
+import { loadParty, partyFromLink, saveParty } from './storage/party';
+import { personalise } from './i18n/personalise';
+import { HighScoreEntry, HighScoreTables, exportHighScores, importHighScores, insertHighScore, loadHighScores, loadPlayerName, qualifiesForTopList, renameHighScore, saveHighScores, savePlayerName, topList } from './storage/highScores';
+import { cleanPresetName, deleteCustomPreset, loadCustomPresets, saveCustomPreset } from './storage/difficulties';
+import { loadServerUrl, saveServerUrl } from './storage/leaderboard';
+import { HttpLeaderboardClient } from './leaderboard/client';
+import { LeaderboardService } from './leaderboard/service';
+import { Tournament, createTournament, currentTurn, isFinished, recordResult, standings } from './game/tournament';
+import { loadTournament, saveTournament } from './storage/tournament';
+import { exportLevel, loadLevelDraft, readLevelFile, saveLevelDraft } from './storage/levels';
+import ReplayControls from './components/ReplayControls';
+import GhostPanel from './components/GhostPanel';
+import ControlsScreen from './components/ControlsScreen';
+import DifficultyEditor from './components/DifficultyEditor';
+import LevelEditorPanel from './components/LevelEditorPanel';
+import Scoreboard, { ScoreboardTab } from './components/Scoreboard';
+import TournamentPanel from './components/TournamentPanel';
+import ShopPanel from './components/ShopPanel';
+import TrophyScreen from './components/TrophyScreen';
+import AudioPanel from './components/AudioPanel';
+import PartyPanel from './components/PartyPanel';
+import DailyPanel from './components/DailyPanel';
+import TournamentStandings from './components/TournamentStandings';
+import Podium from './components/Podium';
+import { hasMenuFocus, moveMenuFocus } from './components/menuFocus';
+import { bigButton, iconButton, menuButton, smallButton, stackedMenuButton } from './components/buttonStyles';
 
 // --- Constants & Types ---
 
-const CANVAS_WIDTH = 800;
-const CANVAS_HEIGHT = 600;
+type GameState = 'START' | 'PLAYING' | 'PAUSED' | 'GAME_OVER' | 'REPLAY' | 'PODIUM' | 'EDITOR';
 
-type Difficulty = 'EASY' | 'MEDIUM' | 'HARD';
+// VERSUS puts two birds on the same pipe stream
+type GameMode = 'SOLO' | 'VERSUS';
 
-const DIFFICULTIES: Record<Difficulty, { speed: number; gap: number; gravity: number; jump: number; pipeInterval: number }> = {
-  EASY: { speed: 2, gap: 240, gravity: 0.25, jump: -5.5, pipeInterval: 2200 },
-  MEDIUM: { speed: 3, gap: 190, gravity: 0.5, jump: -7.5, pipeInterval: 1800 },
-  HARD: { speed: 5, gap: 150, gravity: 0.7, jump: -9, pipeInterval: 1400 },
-};
+const BIRD_COLORS = ['#E74C3C', '#3498DB'];
 
-const FUNNY_TEXTS = [
-  "Marcus hepper!",
-  "Marcus: Du har en fed bil!",
-  "Marcus: Jeg hepper på dig!",
-  "Marcus: Du er min største fan!",
-  "Marcus: Skal jeg vise mine overarme?",
-  "Marcus: Se mine overarme er vokset!",
-  "Marcus går helt amok!",
-  "Marcus: Kom så Nichlas!",
-  "Marcus tabte kæben!",
-  "Marcus er kæmpe fan!",
-  "Marcus: Det er snyd?!",
-  "Marcus skylder kage!",
-  "Marcus: Respekt!",
-  "Marcus: Du er for vild!",
-  "Marcus giver is!",
-  "Marcus ser op til dig!",
-  "Marcus klapper!",
-  "Marcus: Wow!",
-  "Marcus: Den er god nok!",
-  "Du er steget en level i år!",
-  "Mere kage til dig!",
-  "Fødselsdagskongen!",
-  "Kæmpe chef!",
-  "Flyvende Nichlas!",
-  "Turbo på!",
-  "Du vinder et stykke kage mere!",
-  "Mesterflyver!",
-  "Sådan skal det gøres!",
-  "Marcus: Du styrer!",
-  "Marcus: Kæmpe highfive!",
-  "Marcus tror på dig!",
-  "Marcus: Det er magi!",
-  "Marcus jubler!",
-  "Marcus: En gang til!"
-];
-
-type GameState = 'START' | 'PLAYING' | 'GAME_OVER';
-
-interface Player {
-  x: number;
-  y: number;
-  w: number;
-  h: number;
-  dy: number;
-  angle: number;
+// Keys that walk through the menus, even where they are also bound to an action
+const MENU_NAV_KEYS = ['ArrowUp', 'ArrowDown'];
+
+// The level editor works on absolute positions; `scroll` is how far right the view is
+interface LevelEditorState {
+  name: string;
+  obstacles: PlacedObstacle[];
+  selected: number | null;
+  scroll: number;
 }
 
-interface Pipe {
-  x: number;
-  y: number; // Top pipe height
-  w: number;
-  passed: boolean;
-  passedBackward: boolean; // Track if passed backwards
-  id: number;
+const editorStateFor = (level: Level): LevelEditorState => ({
+  name: level.name,
+  obstacles: placeObstacles(level),
+  selected: null,
+  scroll: 0
+});
+
+const POWER_UP_COLORS: Record<PowerUpType, string> = { SHIELD: '#3498DB', SLOWMO: '#1ABC9C', SHRINK: '#9B59B6', DOUBLE: '#F1C40F' };
+
+// Background, cross and optional inner cross of each Nordic flag
+const FLAG_COLORS: Record<Exclude<FlagStyle, 'NONE'>, [string, string, string | null]> = {
+  DENMARK: ['#C60C30', '#FFF', null],
+  SWEDEN: ['#006AA7', '#FECC00', null],
+  NORWAY: ['#BA0C2F', '#FFF', '#00205B'],
+  FAROE: ['#FFF', '#0065BD', '#EF303E'],
+};
+
+// What the HUD shows for one running power-up; SLOWMO belongs to nobody in particular
+interface PowerUpTimer {
+  type: PowerUpType;
+  bird: number | null;
+  seconds: number;
 }
 
+// Long frames (tab switch, debugger) are clamped so the fixed-step loop never spirals trying to catch up
+const MAX_FRAME_MS = 250;
+
 interface Cloud {
   x: number;
   y: number;
@@ -89,42 +125,82 @@ interface Particle {
   size: number;
 }
 
-interface Toast {
-  text: string;
-  x: number;
-  y: number;
+// A daily challenge run; only the first attempt of the day is scored
+interface DailyAttempt {
+  day: string;
+  scored: boolean;
+}
+
+// An unlocked achievement on its way across the top of the screen
+interface AchievementBanner {
+  id: AchievementId;
   life: number;
-  opacity: number;
-  color?: string;
 }
 
+const ACHIEVEMENT_BANNER_LIFE = 180;
+
+// Ticks the attract-mode demo lies crashed before it starts over
+const DEMO_RESTART_TICKS = 90;
+
 // --- Audio System ---
 
 class SoundManager {
   ctx: AudioContext | null = null;
-  bgmOscillators: OscillatorNode[] = [];
-  bgmGain: GainNode | null = null;
-  isPlayingBgm = false;
-  noteTimer: number | null = null;
+  music: Sequencer | null = null;
+  playlist: Song[] = getTheme(DEFAULT_THEME).playlist; // Set by the theme; takes effect from the next startMusic
+  // Mixer: music and effects each have a bus feeding the master
+  masterBus: GainNode | null = null;
+  musicBus: GainNode | null = null;
+  sfxBus: GainNode | null = null;
+  settings: AudioSettings = loadAudioSettings();
 
   init() {
     if (!this.ctx) {
       this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      this.masterBus = this.ctx.createGain();
+      this.masterBus.connect(this.ctx.destination);
+      this.musicBus = this.ctx.createGain();
+      this.musicBus.connect(this.masterBus);
+      this.sfxBus = this.ctx.createGain();
+      this.sfxBus.connect(this.masterBus);
+      this.music = new Sequencer(this.ctx, this.musicBus);
+      this.applyMix();
     }
   }
 
+  setSettings(settings: AudioSettings) {
+    this.settings = settings;
+    this.applyMix();
+  }
+
+  private applyMix() {
+    if (!this.ctx) return;
+    const { master, music, sfx, muted } = this.settings;
+    // A short glide so dragging a slider doesn't click
+    const set = (bus: GainNode | null, value: number) => bus?.gain.setTargetAtTime(value * value, this.ctx!.currentTime, 0.02);
+    set(this.masterBus, muted ? 0 : master);
+    set(this.musicBus, music);
+    set(this.sfxBus, sfx);
+  }
+
   resume() {
     if (this.ctx && this.ctx.state === 'suspended') {
         this.ctx.resume();
     }
   }
 
+  suspend() {
+    if (this.ctx && this.ctx.state === 'running') {
+        this.ctx.suspend();
+    }
+  }
+
   playJump() {
     if (!this.ctx) return;
     const osc = this.ctx.createOscillator();
     const gain = this.ctx.createGain();
     osc.connect(gain);
-    gain.connect(this.ctx.destination);
+    gain.connect(this.sfxBus!);
     
     osc.type = 'sine';
     osc.frequency.setValueAtTime(400, this.ctx.currentTime);
@@ -145,7 +221,7 @@ class SoundManager {
     const osc1 = this.ctx.createOscillator();
     const gain1 = this.ctx.createGain();
     osc1.connect(gain1);
-    gain1.connect(this.ctx.destination);
+    gain1.connect(this.sfxBus!);
     osc1.frequency.setValueAtTime(1200, t);
     osc1.frequency.setValueAtTime(1600, t + 0.05);
     gain1.gain.setValueAtTime(0.1, t);
@@ -162,7 +238,7 @@ class SoundManager {
     const gain = this.ctx.createGain();
     osc.type = 'triangle';
     osc.connect(gain);
-    gain.connect(this.ctx.destination);
+    gain.connect(this.sfxBus!);
     
     osc.frequency.setValueAtTime(200, t);
     osc.frequency.exponentialRampToValueAtTime(800, t + 0.3);
@@ -189,7 +265,7 @@ class SoundManager {
     noise.buffer = buffer;
     const noiseGain = this.ctx.createGain();
     noise.connect(noiseGain);
-    noiseGain.connect(this.ctx.destination);
+    noiseGain.connect(this.sfxBus!);
     
     noiseGain.gain.setValueAtTime(0.4, t);
     noiseGain.gain.exponentialRampToValueAtTime(0.01, t + 0.3);
@@ -199,7 +275,7 @@ class SoundManager {
     const osc = this.ctx.createOscillator();
     const gain = this.ctx.createGain();
     osc.connect(gain);
-    gain.connect(this.ctx.destination);
+    gain.connect(this.sfxBus!);
     osc.frequency.setValueAtTime(150, t);
     osc.frequency.exponentialRampToValueAtTime(40, t + 0.3);
     gain.gain.setValueAtTime(0.5, t);
@@ -215,7 +291,7 @@ class SoundManager {
     const gain = this.ctx.createGain();
     osc.type = 'sawtooth';
     osc.connect(gain);
-    gain.connect(this.ctx.destination);
+    gain.connect(this.sfxBus!);
 
     // Party horn slide
     osc.frequency.setValueAtTime(300, t);
@@ -229,147 +305,380 @@ class SoundManager {
     osc.stop(t + 0.5);
   }
 
+  playPowerUp(type: PowerUpType) {
+    if (!this.ctx) return;
+    const t = this.ctx.currentTime;
+    // Rising arpeggio, each pickup in its own key; slow-mo plays it downwards
+    const base = { SHIELD: 440, SLOWMO: 330, SHRINK: 660, DOUBLE: 523 }[type];
+    const steps = type === 'SLOWMO' ? [2, 1.5, 1] : [1, 1.25, 1.5, 2];
+    steps.forEach((step, i) => {
+      const osc = this.ctx!.createOscillator();
+      const gain = this.ctx!.createGain();
+      osc.type = type === 'SHIELD' ? 'triangle' : 'square';
+      osc.connect(gain);
+      gain.connect(this.sfxBus!);
+      const start = t + i * 0.06;
+      osc.frequency.setValueAtTime(base * step, start);
+      gain.gain.setValueAtTime(0.08, start);
+      gain.gain.exponentialRampToValueAtTime(0.01, start + 0.1);
+      osc.start(start);
+      osc.stop(start + 0.1);
+    });
+  }
+
+  playShieldBreak() {
+    if (!this.ctx) return;
+    const t = this.ctx.currentTime;
+    // Glassy "ping" falling in pitch
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+    osc.type = 'triangle';
+    osc.connect(gain);
+    gain.connect(this.sfxBus!);
+    osc.frequency.setValueAtTime(1800, t);
+    osc.frequency.exponentialRampToValueAtTime(300, t + 0.25);
+    gain.gain.setValueAtTime(0.25, t);
+    gain.gain.exponentialRampToValueAtTime(0.01, t + 0.25);
+    osc.start(t);
+    osc.stop(t + 0.25);
+  }
+
+  playCoin() {
+    if (!this.ctx) return;
+    const t = this.ctx.currentTime;
+
+    // Short bright "bling", higher than the score sound
+    const osc = this.ctx.createOscillator();
+    const gain = this.ctx.createGain();
+    osc.type = 'sine';
+    osc.connect(gain);
+    gain.connect(this.sfxBus!);
+    osc.frequency.setValueAtTime(1976, t);
+    osc.frequency.setValueAtTime(2637, t + 0.04);
+    gain.gain.setValueAtTime(0.08, t);
+    gain.gain.exponentialRampToValueAtTime(0.01, t + 0.15);
+    osc.start(t);
+    osc.stop(t + 0.15);
+  }
+
+  playAchievement() {
+    if (!this.ctx) return;
+    const t = this.ctx.currentTime;
+
+    // Little fanfare: three quick notes and a long one
+    [523.25, 659.25, 783.99, 1046.5].forEach((f, i) => {
+      const osc = this.ctx!.createOscillator();
+      const gain = this.ctx!.createGain();
+      osc.type = 'triangle';
+      osc.connect(gain);
+      gain.connect(this.sfxBus!);
+      const start = t + i * 0.1;
+      const length = i === 3 ? 0.5 : 0.1;
+      osc.frequency.setValueAtTime(f, start);
+      gain.gain.setValueAtTime(0.12, start);
+      gain.gain.exponentialRampToValueAtTime(0.01, start + length);
+      osc.start(start);
+      osc.stop(start + length);
+    });
+  }
+
+  // Loops the theme's playlist from the top
   startMusic() {
-    if (!this.ctx || this.isPlayingBgm) return;
-    this.isPlayingBgm = true;
-    
-    // Happy Birthday Melody (Notes in Hz)
-    const G4 = 392.00;
-    const A4 = 440.00;
-    const B4 = 493.88;
-    const C5 = 523.25;
-    const D5 = 587.33;
-    const E5 = 659.25;
-    const F5 = 698.46;
-    const G5 = 783.99;
-    const REST = 0;
-
-    const melody = [
-        {f: G4, d: 300}, {f: G4, d: 150}, {f: A4, d: 500}, {f: G4, d: 500}, {f: C5, d: 500}, {f: B4, d: 800}, {f: REST, d: 200},
-        {f: G4, d: 300}, {f: G4, d: 150}, {f: A4, d: 500}, {f: G4, d: 500}, {f: D5, d: 500}, {f: C5, d: 800}, {f: REST, d: 200},
-        {f: G4, d: 300}, {f: G4, d: 150}, {f: G5, d: 500}, {f: E5, d: 500}, {f: C5, d: 500}, {f: B4, d: 500}, {f: A4, d: 800}, {f: REST, d: 200},
-        {f: F5, d: 300}, {f: F5, d: 150}, {f: E5, d: 500}, {f: C5, d: 500}, {f: D5, d: 500}, {f: C5, d: 1000}, {f: REST, d: 1000}
-    ];
-
-    let noteIndex = 0;
-    const playNextNote = () => {
-        if (!this.isPlayingBgm) return;
-        
-        const note = melody[noteIndex % melody.length];
-        
-        if (this.ctx && note.f !== REST) {
-             const melOsc = this.ctx.createOscillator();
-             const melGain = this.ctx.createGain();
-             melOsc.connect(melGain);
-             melGain.connect(this.ctx.destination);
-             melOsc.type = 'sine';
-             melOsc.frequency.value = note.f;
-             melGain.gain.setValueAtTime(0.05, this.ctx.currentTime);
-             melGain.gain.exponentialRampToValueAtTime(0.001, this.ctx.currentTime + (note.d / 1000));
-             melOsc.start();
-             melOsc.stop(this.ctx.currentTime + (note.d / 1000));
-        }
+    if (!this.music || this.music.isPlaying) return;
+    this.music.play(this.playlist);
+  }
 
-        noteIndex++;
-        this.noteTimer = window.setTimeout(playNextNote, note.d);
-    };
-    
-    playNextNote();
+  // Stops scheduling but remembers where the song was
+  pauseMusic() {
+    this.music?.pause();
+  }
+
+  resumeMusic() {
+    this.music?.resume();
   }
 
   stopMusic() {
-    this.isPlayingBgm = false;
-    this.bgmOscillators.forEach(o => {
-        try { o.stop(); } catch(e){}
-    });
-    this.bgmOscillators = [];
-    if (this.noteTimer) {
-        clearTimeout(this.noteTimer);
-        this.noteTimer = null;
-    }
+    this.music?.stop();
   }
 }
 
 const soundManager = new SoundManager();
 
+// Sound effects only need to know what happened, so they hang straight off the bus
+const connectSound = (bus: GameEventBus, sound: SoundManager) => {
+  bus.on('flap', () => sound.playJump());
+  bus.on('pipePassed', () => sound.playScore());
+  bus.on('pipePassedBackward', () => sound.playReverse());
+  bus.on('backwardBirthday', () => sound.playParty());
+  bus.on('crash', () => sound.playCrash());
+  bus.on('powerUp', e => sound.playPowerUp(e.powerUp));
+  bus.on('coin', () => sound.playCoin());
+  bus.on('shieldUsed', () => sound.playShieldBreak());
+  bus.on('levelComplete', () => sound.playParty());
+  bus.on('cakeModeUnlocked', () => sound.playParty());
+  bus.on('rewind', () => sound.playReverse());
+  bus.on('gameStart', () => {
+    sound.init();
+    sound.resume();
+    sound.stopMusic();
+    sound.startMusic();
+  });
+  bus.on('gameOver', () => sound.stopMusic());
+};
+connectSound(gameEvents, soundManager);
+bridgeToWindow(gameEvents);
+const inputManager = new InputManager(loadBindings());
+
+const leaderboardClientFor = (url: string) => url ? new HttpLeaderboardClient(url) : null;
+const leaderboard = new LeaderboardService(leaderboardClientFor(loadServerUrl()));
+
 
 // --- Main Component ---
 
-export default function Game() {
+interface GameProps {
+  locale: Locale;
+  onLocaleChange: (locale: Locale) => void;
+  party: PartyConfig;
+  onPartyChange: (party: PartyConfig) => void;
+}
+
+export default function Game({ locale, onLocaleChange, party, onPartyChange }: GameProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [gameState, setGameState] = useState<GameState>('START');
-  const [score, setScore] = useState(0);
-  const [difficulty, setDifficulty] = useState<Difficulty>('EASY');
+  const [gameMode, setGameMode] = useState<GameMode>('SOLO');
+  // One score per bird; most of the UI only cares about the first
+  const [scores, setScores] = useState<number[]>([0]);
+  const score = scores[0];
+  // A tournament in progress survives reloads, and fixes the difficulty while it runs
+  const [tournament, setTournament] = useState<Tournament | null>(() => loadTournament());
+  const [showTournamentSetup, setShowTournamentSetup] = useState(false);
+  const [difficulty, setDifficulty] = useState<Difficulty>(() => tournament?.difficulty ?? 'EASY');
+  const [customPresets, setCustomPresets] = useState<CustomPresets>(() => loadCustomPresets());
+  const [editingPreset, setEditingPreset] = useState<string | null>(null); // '' for a new preset
   
-  // Store top 5 scores for each difficulty
-  const [highScores, setHighScores] = useState<Record<Difficulty, number[]>>({ 
-    EASY: [], 
-    MEDIUM: [], 
-    HARD: [] 
-  });
+  // Top 5 entries for each difficulty
+  const [highScores, setHighScores] = useState<HighScoreTables>(() => loadHighScores(party.name));
+  const [playerName, setPlayerName] = useState(() => loadPlayerName(party.name));
+  // The entry from the last run, while its name can still be edited on GAME_OVER
+  const [newEntry, setNewEntry] = useState<{ difficulty: Difficulty; date: string; rank: number } | null>(null);
+  const [scoreImportError, setScoreImportError] = useState<string | null>(null);
+
+  // Remote leaderboard
+  const [scoreboardTab, setScoreboardTab] = useState<ScoreboardTab>('LOCAL');
+  const [serverUrl, setServerUrl] = useState(() => loadServerUrl());
+  const [remoteBoard, setRemoteBoard] = useState<{ entries: HighScoreEntry[]; notice: string | null }>({ entries: [], notice: null });
   
-  const [isCakeMode, setIsCakeMode] = useState(false);
+  const [themeSettings, setThemeSettings] = useState<ThemeSettings>(() => loadThemeSettings());
   const [cakeClicks, setCakeClicks] = useState(0);
+  const theme = getTheme(themeSettings.theme);
+
+  const t = useStrings();
+
+  // Replays
+  const [lastRun, setLastRun] = useState<RunRecording | null>(null);
+  const [savedReplays, setSavedReplays] = useState<RunRecording[]>(() => loadReplays());
+  const [replayTick, setReplayTick] = useState(0);
+  const [replayPaused, setReplayPaused] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+
+  // Ghost racing
+  const [ghosts, setGhosts] = useState<GhostStore>(() => loadGhosts());
+  const [ghostMode, setGhostMode] = useState(false);
+  const [ghostSource, setGhostSource] = useState<GhostSource>('BEST');
+  const [ghostDelta, setGhostDelta] = useState<number | null>(null);
+  const [ghostImportError, setGhostImportError] = useState<string | null>(null);
+
+  const [powerUpTimers, setPowerUpTimers] = useState<PowerUpTimer[]>([]);
+
+  const [shop, setShop] = useState<ShopState>(() => loadShop());
+  const [showShop, setShowShop] = useState(false);
+  const [runCoins, setRunCoins] = useState(0);
+
+  const [achievements, setAchievements] = useState<UnlockedAchievements>(() => loadAchievements());
+  const [showTrophies, setShowTrophies] = useState(false);
+
+  const [daily, setDaily] = useState<DailyState>(() => loadDaily());
+
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(() => soundManager.settings);
+  const [showAudio, setShowAudio] = useState(false);
+  const [showParty, setShowParty] = useState(false);
+
+  // Levels: the one the next run is played on, and the editor's working copy
+  const [activeLevel, setActiveLevel] = useState<Level | null>(null);
+  const [editor, setEditor] = useState<LevelEditorState>(() => editorStateFor(loadLevelDraft()));
+  const [levelImportError, setLevelImportError] = useState<string | null>(null);
+
+  // Controls
+  const [bindings, setBindings] = useState<Bindings>(() => inputManager.bindings);
+  const [showControls, setShowControls] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
 
   // Game State Refs
-  const player = useRef<Player>({ x: 100, y: 250, w: 34, h: 28, dy: 0, angle: 0 });
-  const pipes = useRef<Pipe[]>([]);
+  const sim = useRef<SimState>(createSimulation(difficulty, resolveDifficulty(difficulty, customPresets), randomSeed()));
+  const sceneryRng = useRef<Rng>(createRng(randomSeed()));
   const clouds = useRef<Cloud[]>([]);
   const particles = useRef<Particle[]>([]);
-  const toasts = useRef<Toast[]>([]);
-  const lastPipeTime = useRef(0);
-  const scoreRef = useRef(0);
-  
-  // New Refs for features
-  const keysPressed = useRef<Set<string>>(new Set());
-  const backwardStreak = useRef(0);
-
-  // Initialize Clouds and Load Scores
+  const toasts = useRef(new ToastQueue());
+  const commentator = useRef(new Commentator());
+  const achievementBanners = useRef<AchievementBanner[]>([]);
+  const runStats = useRef<RunStats>(createRunStats(1));
+  const dailyRun = useRef<DailyAttempt | null>(null);
+  // Updated straight away, so a second tick in the same frame doesn't unlock it again
+  const achievementsView = useRef(achievements);
+  const lastFrameTime = useRef<number | null>(null);
+  const accumulator = useRef(0);
+  const recorder = useRef<RunRecording | null>(null);
+  const replay = useRef<{ recording: RunRecording; cursor: PlaybackCursor; paused: boolean; speed: number } | null>(null);
+  const ghost = useRef<{ recording: RunRecording; cursor: PlaybackCursor; sim: SimState } | null>(null);
+  // The draw loop only re-binds on a few state changes, so it reads the editor through a ref
+  const editorView = useRef(editor);
+  editorView.current = editor;
+  const shopView = useRef(shop);
+  shopView.current = shop;
+  const partyView = useRef(party);
+  partyView.current = party;
+  const editorDrag = useRef<{ index: number; dx: number; dy: number } | null>(null);
+  const playtesting = useRef(false);
+  // Watching the bot: it flies the run, which counts for nothing
+  const botRun = useRef(false);
+  // Rewind practice: recent states to wind back to, and ticks left of the rewind after a crash
+  const rewindBuffer = useRef<RewindBuffer | null>(null);
+  const crashRewind = useRef(0);
+  const rewinding = useRef(false);
+  const rewinds = useRef(0);
+  const [rewindCount, setRewindCount] = useState(0);
+  const demoRestart = useRef(DEMO_RESTART_TICKS);
+
+  // Initialize Clouds
   useEffect(() => {
+    const rng = sceneryRng.current;
     for(let i=0; i<5; i++) {
         clouds.current.push({
-            x: Math.random() * CANVAS_WIDTH,
-            y: Math.random() * (CANVAS_HEIGHT / 2),
-            scale: 0.5 + Math.random() * 1,
-            speed: 0.2 + Math.random() * 0.5,
-            type: Math.floor(Math.random() * 3)
+            x: nextFloat(rng) * CANVAS_WIDTH,
+            y: nextFloat(rng) * (CANVAS_HEIGHT / 2),
+            scale: 0.5 + nextFloat(rng) * 1,
+            speed: 0.2 + nextFloat(rng) * 0.5,
+            type: Math.floor(nextFloat(rng) * 3)
         });
     }
-    
-    // Load high scores
-    const saved = localStorage.getItem('flappy_nichlas_top5');
-    if (saved) {
-        try { 
-            const parsed = JSON.parse(saved);
-            if (parsed.EASY && Array.isArray(parsed.EASY)) {
-                setHighScores(parsed);
-            }
-        } catch(e) {}
-    }
   }, []);
 
   // Save high scores whenever they change
   useEffect(() => {
-      localStorage.setItem('flappy_nichlas_top5', JSON.stringify(highScores));
+      saveHighScores(highScores);
   }, [highScores]);
 
-  // Keyboard Listeners
+  // Until a name has been saved, scores go under whoever's birthday it is
+  useEffect(() => {
+      setPlayerName(loadPlayerName(party.name));
+  }, [party.name]);
+
+  useEffect(() => {
+      saveThemeSettings(themeSettings);
+      soundManager.playlist = theme.playlist;
+  }, [themeSettings]);
+
+  useEffect(() => {
+      saveAudioSettings(audioSettings);
+      soundManager.setSettings(audioSettings);
+  }, [audioSettings]);
+
+  // Send queued leaderboard submissions at startup and whenever the network comes back
+  useEffect(() => {
+      const flush = () => leaderboard.flush();
+      flush();
+      window.addEventListener('online', flush);
+      return () => window.removeEventListener('online', flush);
+  }, []);
+
+  // Fetch the remote tab when it's showing; an unreachable server falls back to the local top 5
+  useEffect(() => {
+      if (gameState !== 'START' || scoreboardTab === 'LOCAL') return;
+      let cancelled = false;
+      setRemoteBoard(prev => ({ ...prev, notice: t.scoreboard.loading }));
+      leaderboard.flush()
+          .then(() => leaderboard.fetchTop(difficulty, scoreboardTab, topList(highScores, difficulty)))
+          .then(result => {
+              if (cancelled) return;
+              const pending = leaderboard.pendingCount;
+              const notes = [
+                  result.source === 'LOCAL' && (
+                      isCustomDifficulty(difficulty) ? t.scoreboard.customLocalOnly
+                      : serverUrl ? t.scoreboard.serverUnreachable
+                      : t.scoreboard.noServer
+                  ),
+                  pending > 0 && t.scoreboard.pending(pending)
+              ].filter(Boolean);
+              setRemoteBoard({ entries: result.entries, notice: notes.join(' · ') || null });
+          });
+      return () => {
+          cancelled = true;
+      };
+  }, [gameState, scoreboardTab, difficulty, serverUrl, locale]);
+
+  // Input Listeners
+  // Actions are routed through a ref so the subscription always sees the latest state
+  const actionHandler = useRef<ActionListener>(() => {});
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-        keysPressed.current.add(e.code);
+    inputManager.attach();
+    const unsubscribe = inputManager.subscribe((action, source, key) => actionHandler.current(action, source, key));
+    // Up/down are not actions, but should still walk through the menus
+    const handleMenuKeys = (e: KeyboardEvent) => {
+        if (MENU_NAV_KEYS.includes(e.code)) {
+            moveMenuFocus(menuRef.current, e.code === 'ArrowUp' ? -1 : 1);
+        }
     };
-    const handleKeyUp = (e: KeyboardEvent) => {
-        keysPressed.current.delete(e.code);
+    window.addEventListener('keydown', handleMenuKeys);
+    return () => {
+        unsubscribe();
+        inputManager.detach();
+        window.removeEventListener('keydown', handleMenuKeys);
     };
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
+  }, []);
+
+  // Auto-pause when the tab is hidden or the window loses focus, so Nichlas doesn't fall to his death unattended
+  const autoPause = useRef(() => {});
+  useEffect(() => {
+    const handleVisibility = () => {
+        if (document.hidden) autoPause.current();
+    };
+    const handleBlur = () => autoPause.current();
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('blur', handleBlur);
     return () => {
-        window.removeEventListener('keydown', handleKeyDown);
-        window.removeEventListener('keyup', handleKeyUp);
+        document.removeEventListener('visibilitychange', handleVisibility);
+        window.removeEventListener('blur', handleBlur);
     };
   }, []);
 
+  useEffect(() => {
+      saveTournament(tournament);
+  }, [tournament]);
+
+  useEffect(() => {
+      saveLevelDraft(levelFromPlaced(editor.name, editor.obstacles));
+  }, [editor.name, editor.obstacles]);
+
+  // Attract mode: behind the START menu the bot flies a demo on the selected
+  // difficulty, with as many birds as the next game will have
+  const startDemo = () => {
+      sim.current = createSimulation(difficulty, resolveDifficulty(difficulty, customPresets), randomSeed(), birdCount());
+      demoRestart.current = DEMO_RESTART_TICKS;
+      syncScores();
+  };
+
+  useEffect(() => {
+      if (gameState === 'START') startDemo();
+  }, [gameState, gameMode, difficulty]);
+
+  // Save bindings whenever they change
+  useEffect(() => {
+      inputManager.setBindings(bindings);
+      saveBindings(bindings);
+  }, [bindings]);
+
   // Core Game Loop
+  // Rendering runs once per animation frame, the rules advance in fixed TICK_MS steps
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -377,111 +686,103 @@ export default function Game() {
     if (!ctx) return;
 
     let animationFrameId: number;
+    lastFrameTime.current = null;
 
     const loop = (timestamp: number) => {
-      update(timestamp);
+      const elapsed = lastFrameTime.current === null ? 0 : timestamp - lastFrameTime.current;
+      lastFrameTime.current = timestamp;
+      inputManager.pollGamepads();
+      const speed = gameState === 'REPLAY' && replay.current ? replay.current.speed : 1;
+      accumulator.current += Math.min(elapsed, MAX_FRAME_MS) * speed;
+      while (accumulator.current >= TICK_MS) {
+        update();
+        accumulator.current -= TICK_MS;
+      }
+      if (gameState === 'REPLAY') setReplayTick(sim.current.tick);
       draw(ctx);
       animationFrameId = requestAnimationFrame(loop);
     };
 
     animationFrameId = requestAnimationFrame(loop);
     return () => cancelAnimationFrame(animationFrameId);
-  }, [gameState, difficulty, isCakeMode, highScores]); // Re-bind if these change
+  }, [gameState, difficulty, theme, highScores, t]); // Re-bind if these change
+
+  // In SOLO every flap control drives the one bird; in VERSUS player two only flaps
+  const readInputs = (): SimInput[] => {
+      // The bot gives the same inputs a player would
+      if (botRun.current) return sim.current.birds.map((_, i) => botInput(sim.current, i));
+      const flap = inputManager.consumePress('FLAP');
+      const flapP2 = inputManager.consumePress('FLAP_P2');
+      const p1 = {
+          flap: gameMode === 'SOLO' ? flap || flapP2 : flap,
+          left: inputManager.isHeld('LEFT'),
+          right: inputManager.isHeld('RIGHT')
+      };
+      return gameMode === 'SOLO' ? [p1] : [p1, { flap: flapP2, left: false, right: false }];
+  };
 
-  const update = (timestamp: number) => {
-    if (gameState === 'PLAYING') {
-        const settings = DIFFICULTIES[difficulty];
-        
-        // Horizontal Movement (Arrow Keys)
-        const horizontalSpeed = 5;
-        if (keysPressed.current.has('ArrowLeft') || keysPressed.current.has('KeyA')) {
-            player.current.x -= horizontalSpeed;
-        }
-        if (keysPressed.current.has('ArrowRight') || keysPressed.current.has('KeyD')) {
-            player.current.x += horizontalSpeed;
-        }
-        // Clamp Player X
-        player.current.x = Math.max(0, Math.min(CANVAS_WIDTH - player.current.w, player.current.x));
+  const birdCount = () => gameMode === 'VERSUS' ? 2 : 1;
 
-        // Physics
-        player.current.dy += settings.gravity;
-        player.current.y += player.current.dy;
+  const syncScores = () => {
+      setScores(sim.current.birds.map(b => b.score));
+      setRunCoins(sim.current.birds.reduce((sum, b) => sum + b.coins, 0));
+  };
 
-        // Rotation logic
-        const targetAngle = Math.min(Math.PI / 3, Math.max(-0.4, player.current.dy * 0.1));
-        player.current.angle += (targetAngle - player.current.angle) * 0.2;
+  // Only re-renders when a whole second ticks over or a power-up starts or ends
+  const syncPowerUpTimers = () => {
+      const s = sim.current;
+      const timers: PowerUpTimer[] = [];
+      if (s.slowMotionTicks > 0) timers.push({ type: 'SLOWMO', bird: null, seconds: Math.ceil(s.slowMotionTicks * TICK_MS / 1000) });
+      s.birds.forEach((bird, i) => {
+          if (bird.crashed) return;
+          (Object.keys(bird.powerUps) as PowerUpType[]).forEach(type => {
+              timers.push({ type, bird: i, seconds: Math.ceil(bird.powerUps[type]! * TICK_MS / 1000) });
+          });
+      });
+      setPowerUpTimers(prev => JSON.stringify(prev) === JSON.stringify(timers) ? prev : timers);
+  };
 
-        // Boundaries
-        if (player.current.y + player.current.h > CANVAS_HEIGHT) {
-            endGame();
-        }
-        if (player.current.y < 0) {
-            player.current.y = 0;
-            player.current.dy = 0;
-        }
+  // One fixed-length tick
+  const update = () => {
+    // Everything stands still while paused
+    if (gameState === 'PAUSED') return;
 
-        // Pipe Spawning
-        if (timestamp - lastPipeTime.current > settings.pipeInterval) {
-            spawnPipe();
-            lastPipeTime.current = timestamp;
+    if (gameState === 'PLAYING') {
+        const history = rewindBuffer.current;
+        if (history && (crashRewind.current > 0 || inputManager.isHeld('REWIND'))) {
+            // Time runs backwards after a crash and while the rewind key is held
+            if (!rewinding.current) startRewind(crashRewind.current > 0 ? 'CRASH' : 'HELD');
+            if (crashRewind.current > 0) crashRewind.current -= 1;
+            if (!stepRewind()) crashRewind.current = 0;
+        } else {
+            rewinding.current = false;
+            const inputs = readInputs();
+            if (recorder.current) recordInput(recorder.current, sim.current.tick, inputs[0]);
+            history?.push(sim.current);
+            const events = stepSimulation(sim.current, inputs);
+            handleSimEvents(events);
+            if (!unrankedRun()) checkAchievements(events);
+            updateGhost();
+            syncPowerUpTimers();
         }
-
-        // Pipe Movement & Collision
-        const activePipes: Pipe[] = [];
-        
-        pipes.current.forEach(pipe => {
-            pipe.x -= settings.speed;
-
-            // Collision Check
-            const forgiveness = 12;
-            const px = player.current.x + forgiveness;
-            const py = player.current.y + forgiveness;
-            const pw = player.current.w - (forgiveness * 2);
-            const ph = player.current.h - (forgiveness * 2);
-
-            const topRect = { x: pipe.x, y: 0, w: pipe.w, h: pipe.y };
-            const bottomRect = { x: pipe.x, y: pipe.y + settings.gap, w: pipe.w, h: CANVAS_HEIGHT - (pipe.y + settings.gap) };
-
-            if (
-                checkRectCollide({x:px, y:py, w:pw, h:ph}, topRect) ||
-                checkRectCollide({x:px, y:py, w:pw, h:ph}, bottomRect)
-            ) {
-                endGame();
-            }
-
-            // Forward Scoring
-            if (!pipe.passed && pipe.x + pipe.w < player.current.x) {
-                pipe.passed = true;
-                incrementScore();
-            }
-
-            // Backward Pass Detection
-            // Condition: Pipe was passed (is to left of player usually), but now player is to left of pipe
-            if (pipe.passed && !pipe.passedBackward) {
-                if (player.current.x + player.current.w < pipe.x) {
-                    pipe.passedBackward = true;
-                    backwardStreak.current += 1;
-                    soundManager.playReverse();
-                    
-                    if (backwardStreak.current === 5) {
-                        triggerBackwardBirthday();
-                        backwardStreak.current = 0; // Reset or keep counting? Prompt says "5 pipes backwards in a row". 
-                        // Resetting allows triggering again for next 5
-                    }
-                }
-            }
-
-            if (pipe.x + pipe.w > -50) {
-                activePipes.push(pipe);
-            }
-        });
-        pipes.current = activePipes;
-    } else {
-        // Hover animation in Start
-        if (gameState === 'START') {
-            player.current.y = 250 + Math.sin(Date.now() * 0.005) * 10;
-            player.current.angle = 0;
+    } else if (gameState === 'REPLAY') {
+        const run = replay.current;
+        // Freeze everything, particles included, while paused
+        if (!run || run.paused) return;
+        if (sim.current.tick >= run.recording.ticks) {
+            run.paused = true;
+            setReplayPaused(true);
+            return;
         }
+        handleSimEvents(stepSimulation(sim.current, [readRecordedInput(run.recording, run.cursor, sim.current.tick)]));
+        syncPowerUpTimers();
+    } else if (gameState === 'PODIUM') {
+        // Keep the confetti coming while the podium is up
+        if (Math.random() < 0.08) spawnConfetti(10);
+    } else if (gameState === 'START') {
+        // The demo's events go nowhere: no sound, toasts or coins behind the menu
+        if (!sim.current.crashed) stepSimulation(sim.current, sim.current.birds.map((_, i) => botInput(sim.current, i)));
+        else if (--demoRestart.current <= 0) startDemo();
     }
 
     // Update Clouds (Parallax)
@@ -489,7 +790,7 @@ export default function Game() {
         cloud.x -= cloud.speed;
         if (cloud.x < -100) {
             cloud.x = CANVAS_WIDTH + 100;
-            cloud.y = Math.random() * (CANVAS_HEIGHT / 2);
+            cloud.y = nextFloat(sceneryRng.current) * (CANVAS_HEIGHT / 2);
         }
     });
 
@@ -504,48 +805,79 @@ export default function Game() {
     });
     particles.current = activeParticles;
 
-    // Update Toasts
-    const activeToasts: Toast[] = [];
-    toasts.current.forEach(t => {
-        t.y -= 0.8; // Float up faster
-        t.life -= 1;
-        t.opacity = t.life < 20 ? t.life / 20 : 1;
-        if (t.life > 0) activeToasts.push(t);
-    });
-    toasts.current = activeToasts;
+    toasts.current.update();
+
+    // One achievement banner at a time
+    const banner = achievementBanners.current[0];
+    if (banner && --banner.life <= 0) achievementBanners.current.shift();
   };
 
-  const checkRectCollide = (r1: {x:number,y:number,w:number,h:number}, r2: {x:number,y:number,w:number,h:number}) => {
-      return (
-          r1.x < r2.x + r2.w &&
-          r1.x + r1.w > r2.x &&
-          r1.y < r2.y + r2.h &&
-          r1.y + r1.h > r2.y
-      );
+  // Only announces what wasn't unlocked already
+  const unlock = (ids: AchievementId[]) => {
+      const fresh = ids.filter(id => !achievementsView.current[id]);
+      if (fresh.length === 0) return;
+      const unlocked = unlockAchievements(fresh);
+      achievementsView.current = unlocked;
+      setAchievements(unlocked);
+      soundManager.playAchievement();
+      fresh.forEach(id => achievementBanners.current.push({ id, life: ACHIEVEMENT_BANNER_LIFE }));
   };
 
-  const spawnPipe = () => {
-      const settings = DIFFICULTIES[difficulty];
-      const minPipe = 50;
-      const maxPipe = CANVAS_HEIGHT - settings.gap - minPipe;
-      
-      const height = Math.floor(Math.random() * (maxPipe - minPipe + 1)) + minPipe;
-      
-      pipes.current.push({
-          x: CANVAS_WIDTH,
-          y: height, 
-          w: 52,
-          passed: false,
-          passedBackward: false,
-          id: Date.now()
+  // Replays and ghosts never unlock anything, only live runs
+  const checkAchievements = (events: SimEvent[]) => {
+      trackEvents(runStats.current, events);
+      unlock(earnedAchievements(sim.current, runStats.current, achievementsView.current));
+  };
+
+  // The ghost flies the same seed in lockstep; its events are ignored
+  const updateGhost = () => {
+      const g = ghost.current;
+      if (!g) return;
+      if (!g.sim.crashed && g.sim.tick < g.recording.ticks) {
+          stepSimulation(g.sim, [readRecordedInput(g.recording, g.cursor, g.sim.tick)]);
+      }
+      setGhostDelta(sim.current.birds[0].score - g.sim.birds[0].score);
+  };
+
+  const startRewind = (reason: 'CRASH' | 'HELD') => {
+      rewinding.current = true;
+      // A flap mashed during the crash shouldn't fire the moment time runs forward again
+      inputManager.clearPresses();
+      rewinds.current += 1;
+      gameEvents.emit('rewind', { reason, count: rewinds.current });
+  };
+
+  // One tick back in time; false once there is nothing left to go back to
+  const stepRewind = (): boolean => {
+      const previous = rewindBuffer.current?.pop();
+      if (!previous) return false;
+      sim.current = previous;
+      syncScores();
+      syncPowerUpTimers();
+      return true;
+  };
+
+  // Side effects of a simulation tick
+  // Sound, particles and stats subscribe to the bus; only the flow of the game is decided here
+  const handleSimEvents = (events: SimEvent[]) => {
+      events.forEach(event => {
+          gameEvents.emitSimEvent(event);
+          if (gameState === 'REPLAY') return;
+          // In rewind practice a crash winds time back instead of ending the run
+          if (event.type === 'crash' && rewindBuffer.current && rewindBuffer.current.size > 0) {
+              crashRewind.current = CRASH_REWIND_TICKS;
+              return;
+          }
+          // The run only ends once every bird is down, or a level has been flown to the end
+          if (event.type === 'levelComplete' || (event.type === 'crash' && sim.current.crashed)) endGame();
       });
   };
 
-  const spawnParticles = (x: number, y: number, type: 'SCORE' | 'CRASH') => {
+  const spawnParticles = (x: number, y: number, type: 'SCORE' | 'CRASH', bird = 0) => {
       const count = type === 'SCORE' ? 20 : 40;
       const colors = type === 'SCORE' 
-        ? ['#FFD700', '#FFA500', '#FFFFFF', '#2ECC71'] 
-        : ['#888', '#444', '#E74C3C'];
+        ? theme.scoreParticles 
+        : ['#888', '#444', BIRD_COLORS[bird]];
       
       for(let i=0; i<count; i++) {
           particles.current.push({
@@ -559,91 +891,641 @@ export default function Game() {
       }
   };
 
-  const spawnToast = (customText?: string, color?: string) => {
-      const text = customText || FUNNY_TEXTS[Math.floor(Math.random() * FUNNY_TEXTS.length)];
-      toasts.current = []; 
-      toasts.current.push({
-          text,
-          x: CANVAS_WIDTH / 2,
-          y: 150,
-          life: 120,
-          opacity: 1,
-          color: color || '#FFD700'
-      });
+  const spawnConfetti = (count: number) => {
+      const colors = ['#E74C3C', '#F1C40F', '#2ECC71', '#3498DB', '#9B59B6', '#FF69B4'];
+      for(let i=0; i<count; i++) {
+          particles.current.push({
+              x: Math.random() * CANVAS_WIDTH,
+              y: Math.random() * -20,
+              vx: (Math.random() - 0.5) * 3,
+              vy: Math.random() * 2,
+              life: 1.0,
+              color: colors[Math.floor(Math.random() * colors.length)],
+              size: Math.random() * 5 + 4
+          });
+      }
   };
 
-  const incrementScore = () => {
-      scoreRef.current += 1;
-      setScore(scoreRef.current);
-      soundManager.playScore();
-      spawnParticles(player.current.x, player.current.y, 'SCORE');
-      spawnToast();
+  const spawnToast = (text: string, color: string, priority: ToastPriority = 'EVENT') => {
+      toasts.current.push(text, color, priority);
   };
 
-  const triggerBackwardBirthday = () => {
-      soundManager.playParty();
-      spawnParticles(player.current.x, player.current.y, 'SCORE');
-      spawnToast("🎂 BACKWARDS BIRTHDAY! 🎂", '#FF00FF');
+  // What the friend says about a pipe, a backward pass or a crash; an
+  // ordinary pipe is chatter that anything more interesting pushes aside
+  const comment = (remark: Remark | null) => {
+      if (!remark) return;
+      const lines = t.commentary;
+      const pick = (pool: string[]) => commentator.current.pick(remark.tag, pool);
+      switch (remark.tag) {
+          case 'SCORE': return spawnToast(pick(t.toasts), theme.toastColor, 'CHATTER');
+          case 'NEAR_MISS': return spawnToast(pick(lines.nearMiss), theme.toastColor, 'COMMENT');
+          case 'SURVIVAL': return spawnToast(pick(lines.survival.map(line => line(remark.seconds))), theme.toastColor, 'COMMENT');
+          case 'RECORD_CLOSE': return spawnToast(pick(lines.recordClose.map(line => line(remark.left))), '#F1C40F', 'COMMENT');
+          case 'NEW_RECORD': return spawnToast(pick(lines.newRecord), '#F1C40F', 'EVENT');
+          case 'BACKWARD': return spawnToast(pick(lines.backward), theme.toastColor, 'COMMENT');
+          case 'CRASH_AFTER_RECORD': return spawnToast(pick(lines.crashAfterRecord), '#F1C40F', 'EVENT');
+      }
   };
 
+  // --- Effects ---
+  // Particles, toasts and the HUD, driven by the event bus
+
+  useGameEvent('flap', ({ bird }) => {
+      const pl = sim.current.birds[bird].player;
+      particles.current.push({
+          x: pl.x,
+          y: pl.y + pl.h,
+          vx: -1, vy: 1, life: 0.5, color: 'white', size: 3
+      });
+  });
+
+  useGameEvent('pipePassed', event => {
+      const pl = sim.current.birds[event.bird].player;
+      syncScores();
+      spawnParticles(pl.x, pl.y, 'SCORE');
+      comment(commentator.current.observe(event, sim.current));
+  });
+
+  useGameEvent('pipePassedBackward', event => comment(commentator.current.observe(event, sim.current)));
+
+  useGameEvent('backwardBirthday', ({ bird }) => {
+      const pl = sim.current.birds[bird].player;
+      spawnParticles(pl.x, pl.y, 'SCORE');
+      spawnToast(gameMode === 'VERSUS' ? t.events.playerBackwardBirthday(t.player(bird + 1)) : t.events.backwardBirthday, '#FF00FF');
+  });
+
+  useGameEvent('crash', event => {
+      const pl = sim.current.birds[event.bird].player;
+      spawnParticles(pl.x, pl.y, 'CRASH', event.bird);
+      comment(commentator.current.observe(event, sim.current));
+  });
+
+  useGameEvent('levelToast', ({ text }) => spawnToast(text, '#FFFFFF', 'COMMENT'));
+
+  useGameEvent('levelComplete', () => {
+      spawnParticles(CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2, 'SCORE');
+      spawnToast(t.events.levelComplete, '#2ECC71');
+  });
+
+  useGameEvent('powerUp', ({ bird, powerUp }) => {
+      const pl = sim.current.birds[bird].player;
+      spawnParticles(pl.x, pl.y, 'SCORE');
+      spawnToast(`${theme.powerUpIcons[powerUp]} ${t.powerUps[powerUp]}`, POWER_UP_COLORS[powerUp]);
+  });
+
+  useGameEvent('coin', () => syncScores());
+
+  useGameEvent('rewind', ({ count }) => setRewindCount(count));
+
+  useGameEvent('shieldUsed', ({ bird }) => {
+      const pl = sim.current.birds[bird].player;
+      spawnParticles(pl.x, pl.y, 'CRASH', bird);
+  });
+
+  useGameEvent('cakeModeUnlocked', () => {
+      spawnParticles(CANVAS_WIDTH/2, CANVAS_HEIGHT/2, 'SCORE');
+      unlock(['CAKE_UNLOCKED']);
+  });
+
+  useGameEvent('gameOver', event => recordRunResult(event));
+
   const endGame = () => {
+      // A playtest goes straight back to the editor
+      if (playtesting.current) {
+          backToEditor();
+          return;
+      }
+      const birds = sim.current.birds;
       setGameState('GAME_OVER');
-      soundManager.playCrash();
-      soundManager.stopMusic();
-      spawnParticles(player.current.x, player.current.y, 'CRASH');
-      
-      // Update Top 5 High Scores
-      setHighScores(prev => {
-          const currentDiffScores = [...prev[difficulty]];
-          currentDiffScores.push(scoreRef.current);
-          // Sort descending (highest first)
-          currentDiffScores.sort((a, b) => b - a);
-          // Keep top 5
-          const top5 = currentDiffScores.slice(0, 5);
-          return {
-              ...prev,
-              [difficulty]: top5
-          };
+      gameEvents.emit('gameOver', {
+          difficulty: sim.current.difficulty,
+          scores: birds.map(b => b.score),
+          backwardBirthdays: birds.map(b => b.backwardBirthdays),
+          coins: birds.map(b => b.coins),
+          ticks: sim.current.tick,
+          completed: sim.current.completed
       });
   };
 
+  // --- Stats ---
+  // Wallet, replays, ghosts, the daily challenge, the tournament and the top lists
+  const recordRunResult = ({ scores, backwardBirthdays: birthdays, coins }: GameEventOf<'gameOver'>) => {
+      const finalScore = scores[0];
+      const backwardBirthdays = birthdays[0];
+      const levelRun = !!sim.current.level;
+      const dailyAttempt = dailyRun.current;
+      const racedGhost = !!ghost.current;
+      const turn = tournament && currentTurn(tournament);
+      // Tournament runs are entered under the guest's name without asking
+      const entryName = turn ? tournament!.names[turn.guest] : playerName;
+      const mode = turn ? 'TOURNAMENT' : racedGhost ? 'GHOST' : 'CLASSIC';
+
+      if (unrankedRun()) {
+          setNewEntry(null);
+          return;
+      }
+
+      // Every bird's coins go in the same wallet
+      const earned = coins.reduce((sum, c) => sum + c, 0);
+      if (earned > 0) setShop(addCoins(earned));
+
+      // Versus runs are just for fun: no replays, ghosts or top lists
+      if (gameMode === 'VERSUS') {
+          setNewEntry(null);
+          return;
+      }
+
+      if (recorder.current) {
+          finishRecording(recorder.current, sim.current);
+          setLastRun(recorder.current);
+          // A new #1 becomes the ghost to beat
+          const best = topList(highScores, difficulty)[0];
+          if (!levelRun && !dailyAttempt && (!best || finalScore > best.score)) {
+              setGhosts(saveBestGhost(recorder.current));
+          }
+          recorder.current = null;
+      }
+
+      // The daily course has its own list, and practice runs go nowhere
+      if (dailyAttempt) {
+          if (dailyAttempt.scored) {
+              const entry = { name: playerName, date: new Date().toISOString(), score: finalScore, backwardBirthdays, mode: 'DAILY' } as const;
+              setDaily(recordDailyResult(dailyAttempt.day, entry));
+          }
+          setNewEntry(null);
+          return;
+      }
+
+      // Levels are a different game from the random pipes, so they stay off the top lists
+      if (levelRun) {
+          setNewEntry(null);
+          return;
+      }
+
+      if (turn) setTournament(recordResult(tournament!, finalScore));
+      
+      // Update Top 5 High Scores; the name can be changed afterwards on the GAME_OVER screen
+      const date = new Date().toISOString();
+      const entry = { name: entryName, date, score: finalScore, backwardBirthdays, mode } as const;
+      if (qualifiesForTopList(highScores, difficulty, finalScore)) {
+          const { tables, rank } = insertHighScore(highScores, difficulty, entry);
+          setHighScores(tables);
+          setNewEntry(turn ? null : { difficulty, date, rank });
+          if (turn) leaderboard.submit({ ...entry, difficulty });
+      } else {
+          setNewEntry(null);
+          // Top-list runs are submitted once their name is settled, everything else straight away
+          leaderboard.submit({ ...entry, difficulty });
+      }
+  };
+
+  const submitEntryName = () => {
+      if (!newEntry) return;
+      savePlayerName(playerName, party.name);
+      const tables = renameHighScore(highScores, newEntry.difficulty, newEntry.date, playerName, party.name);
+      const entry = tables[newEntry.difficulty].find(e => e.date === newEntry.date);
+      if (entry) leaderboard.submit({ ...entry, difficulty: newEntry.difficulty, date: newEntry.date });
+      setHighScores(tables);
+      setNewEntry(null);
+  };
+
+  const buyShopItem = (category: ShopCategory, id: string) => setShop(buyItem(category, id));
+  const equipShopItem = (category: ShopCategory, id: string) => setShop(equipItem(category, id));
+
+  const changeServerUrl = (url: string) => {
+      saveServerUrl(url);
+      leaderboard.setClient(leaderboardClientFor(url.trim()));
+      setServerUrl(url.trim());
+  };
+
+  const importScores = (file: File) => {
+      importHighScores(file, highScores, party.name)
+          .then(tables => {
+              setHighScores(tables);
+              setScoreImportError(null);
+          })
+          .catch(() => setScoreImportError(t.errors.scoreFile));
+  };
+
+  // The bot's runs and rewind practice earn nothing: no coins, trophies, replays or places on a list
+  const unrankedRun = () => botRun.current || !!rewindBuffer.current;
+
   const startGame = () => {
-      soundManager.init();
-      soundManager.resume();
-      soundManager.startMusic();
+      // A finished tournament has no turns left; only its podium
+      if (tournament && isFinished(tournament)) return;
+      playtesting.current = false;
+      botRun.current = false;
+      rewindBuffer.current = null;
+      dailyRun.current = null;
+      startRun(activeLevel);
+  };
+
+  const watchBot = () => {
+      playtesting.current = false;
+      botRun.current = true;
+      rewindBuffer.current = null;
+      dailyRun.current = null;
+      startRun(null);
+  };
+
+  const startRewindPractice = () => {
+      playtesting.current = false;
+      botRun.current = false;
+      rewindBuffer.current = new RewindBuffer();
+      dailyRun.current = null;
+      startRun(activeLevel);
+  };
+
+  const startDaily = (scored: boolean) => {
+      const day = dayKey();
+      playtesting.current = false;
+      botRun.current = false;
+      rewindBuffer.current = null;
+      dailyRun.current = { day, scored: scored && !hasPlayedDaily(daily, day) };
+      if (dailyRun.current.scored) setDaily(beginDailyAttempt(day));
+      startRun(null);
+  };
+
+  // Restart and try again fly the same kind of run as the one that ended.
+  // Today's scored daily attempt is used up, so another go is practice.
+  const restartRun = () => {
+      if (playtesting.current) playtestLevel();
+      else if (botRun.current) watchBot();
+      else if (rewindBuffer.current) startRewindPractice();
+      else if (dailyRun.current) startDaily(false);
+      else startGame();
+  };
+
+  // The score the commentary measures the first bird against; levels, versus and unranked runs have none
+  const runRecord = (runLevel: Level | null, runDifficulty: Difficulty): number | null => {
+      if (runLevel || gameMode === 'VERSUS' || unrankedRun()) return null;
+      const best = dailyRun.current ? daily.best[0] : topList(highScores, runDifficulty)[0];
+      return best ? best.score : null;
+  };
+
+  const startRun = (runLevel: Level | null) => {
+      // Keep whatever name was typed, even if GEM was never pressed
+      submitEntryName();
       // Reset
-      player.current = { x: 100, y: 250, w: 34, h: 28, dy: 0, angle: 0 };
-      pipes.current = [];
+      // Racing a ghost means flying its exact course, so reuse its seed; the daily course comes from the date
+      const dailyDay = dailyRun.current?.day;
+      const ghostRun = runLevel || dailyDay || rewindBuffer.current ? null : activeGhostRun();
+      const seed = dailyDay ? dailySeed(dailyDay) : ghostRun ? ghostRun.seed : randomSeed();
+      const runDifficulty = dailyDay ? DAILY_DIFFICULTY : difficulty;
+      // ...and its settings, since a preset of the same name may differ here
+      const settings = ghostRun ? recordingSettings(ghostRun) : resolveDifficulty(runDifficulty, customPresets);
+      sim.current = createSimulation(runDifficulty, settings, seed, birdCount(), runLevel);
+      ghost.current = ghostRun
+          ? { recording: ghostRun, cursor: createPlaybackCursor(), sim: createSimulation(ghostRun.difficulty, recordingSettings(ghostRun), ghostRun.seed) }
+          : null;
+      setGhostDelta(ghostRun ? 0 : null);
+      recorder.current = gameMode === 'SOLO' && !playtesting.current && !unrankedRun() ? createRecording(seed, runDifficulty, settings, runLevel) : null;
+      // Game over only offers a replay of the run that just ended, if it was recorded
+      setLastRun(null);
+      gameEvents.emit('gameStart', { difficulty: runDifficulty, seed, birds: sim.current.birds.length, level: runLevel ? runLevel.name : null, daily: !!dailyDay });
       particles.current = [];
-      toasts.current = [];
-      backwardStreak.current = 0;
-      scoreRef.current = 0;
-      setScore(0);
-      lastPipeTime.current = 0;
+      toasts.current.clear();
+      commentator.current.reset(runRecord(runLevel, runDifficulty));
+      rewindBuffer.current?.clear();
+      crashRewind.current = 0;
+      rewinding.current = false;
+      rewinds.current = 0;
+      setRewindCount(0);
+      runStats.current = createRunStats(sim.current.birds.length);
+      inputManager.clearPresses();
+      accumulator.current = 0;
+      syncScores();
       setGameState('PLAYING');
   };
 
+  // --- Levels ---
+
+  const updateEditor = (patch: Partial<LevelEditorState>) => setEditor(prev => ({ ...prev, ...patch }));
+
+  const openEditor = () => {
+      setLevelImportError(null);
+      particles.current = [];
+      toasts.current.clear();
+      setGameState('EDITOR');
+  };
+
+  const backToEditor = () => {
+      playtesting.current = false;
+      soundManager.stopMusic();
+      soundManager.resume();
+      sim.current = createSimulation(difficulty, resolveDifficulty(difficulty, customPresets), randomSeed(), birdCount());
+      syncScores();
+      setGameState('EDITOR');
+  };
+
+  const playtestLevel = () => {
+      playtesting.current = true;
+      botRun.current = false;
+      rewindBuffer.current = null;
+      startRun(levelFromPlaced(editor.name, editor.obstacles));
+  };
+
+  const playEditorLevel = () => {
+      setActiveLevel(levelFromPlaced(editor.name, editor.obstacles));
+      setGameState('START');
+  };
+
+  const changeSelectedObstacle = (patch: Partial<PlacedObstacle>) => {
+      if (editor.selected === null) return;
+      updateEditor({
+          obstacles: editor.obstacles.map((o, i) => i === editor.selected ? clampObstacle({ ...o, ...patch }) : o)
+      });
+  };
+
+  const deleteSelectedObstacle = () => {
+      if (editor.selected === null) return;
+      updateEditor({ obstacles: editor.obstacles.filter((_, i) => i !== editor.selected), selected: null });
+  };
+
+  const scrollEditor = (delta: number) => updateEditor({ scroll: Math.max(0, editor.scroll + delta) });
+
+  const importLevel = (file: File) => {
+      readLevelFile(file)
+          .then(level => {
+              setEditor(editorStateFor(level));
+              setLevelImportError(null);
+          })
+          .catch(() => setLevelImportError(t.errors.levelFile));
+  };
+
+  // Canvas coordinates of a pointer event, whatever size the canvas is shown at
+  const canvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      return {
+          x: (e.clientX - rect.left) * CANVAS_WIDTH / rect.width,
+          y: (e.clientY - rect.top) * CANVAS_HEIGHT / rect.height
+      };
+  };
+
+  // Clicking a pipe picks it up, clicking anywhere else puts a new one there
+  const handleEditorPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      if (gameState !== 'EDITOR') return;
+      const { x, y } = canvasPoint(e);
+      const worldX = x + editor.scroll;
+      let index = editor.obstacles.findIndex(o => worldX >= o.x && worldX <= o.x + obstacleWidth(o.type || 'PIPE'));
+      let obstacles = editor.obstacles;
+      if (index === -1) {
+          const gap = resolveDifficulty(difficulty, customPresets).gap;
+          obstacles = [...obstacles, clampObstacle({ x: Math.max(0, worldX - PIPE_WIDTH / 2), gapY: y - gap / 2, gap })];
+          index = obstacles.length - 1;
+      }
+      const picked = obstacles[index];
+      editorDrag.current = { index, dx: worldX - picked.x, dy: y - picked.gapY };
+      e.currentTarget.setPointerCapture(e.pointerId);
+      updateEditor({ obstacles, selected: index });
+  };
+
+  const handleEditorPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+      const drag = editorDrag.current;
+      if (gameState !== 'EDITOR' || !drag) return;
+      const { x, y } = canvasPoint(e);
+      updateEditor({
+          obstacles: editor.obstacles.map((o, i) => i === drag.index
+              ? clampObstacle({ ...o, x: Math.round(Math.max(0, x + editor.scroll - drag.dx)), gapY: y - drag.dy })
+              : o)
+      });
+  };
+
+  const handleEditorPointerUp = () => {
+      editorDrag.current = null;
+  };
+
+  // --- Custom Difficulties ---
+
+  const savePreset = (name: string, settings: DifficultySettings) => {
+      setCustomPresets(saveCustomPreset(name, settings));
+      // Renaming keeps the old preset around; it can be deleted separately
+      setDifficulty(customDifficulty(name));
+      setEditingPreset(null);
+  };
+
+  const removePreset = (name: string) => {
+      setCustomPresets(deleteCustomPreset(name));
+      if (difficulty === customDifficulty(name)) setDifficulty('EASY');
+      setEditingPreset(null);
+  };
+
+  // --- Tournament ---
+
+  const beginTournament = (names: string[], rounds: number) => {
+      setTournament(createTournament(names, rounds, difficulty));
+      setActiveLevel(null);
+      setGameMode('SOLO');
+      setShowTournamentSetup(false);
+  };
+
+  const showPodium = () => {
+      if (!tournament) return;
+      const winner = standings(tournament)[0];
+      soundManager.init();
+      soundManager.resume();
+      soundManager.playParty();
+      spawnConfetti(150);
+      spawnToast(t.events.tournamentWinner(winner.name), '#F1C40F');
+      setGameState('PODIUM');
+  };
+
+  const leavePodium = (newTournament: boolean) => {
+      setTournament(null);
+      setShowTournamentSetup(newTournament);
+      quitToMenu();
+  };
+
+  // Highest score wins, then whoever stayed in the air longest; null is a draw
+  const versusWinner = (): number | null => {
+      const [a, b] = sim.current.birds;
+      if (!a || !b) return null;
+      if (a.score !== b.score) return a.score > b.score ? 0 : 1;
+      if (a.crashedAtTick !== b.crashedAtTick) return (a.crashedAtTick ?? 0) > (b.crashedAtTick ?? 0) ? 0 : 1;
+      return null;
+  };
+
+  // --- Ghosts ---
+
+  const activeGhostRun = (): RunRecording | null => {
+      if (!ghostMode || gameMode !== 'SOLO' || tournament) return null;
+      const slots = ghostSlots(ghosts, difficulty);
+      return (ghostSource === 'RIVAL' ? slots.rival : slots.best) || slots.best || slots.rival;
+  };
+
+  const importGhost = (file: File) => {
+      readGhostFile(file)
+          .then(imported => {
+              // A custom preset name goes through the same trimming as one typed in the editor
+              const custom = isCustomDifficulty(imported.difficulty);
+              const name = cleanPresetName(difficultyLabel(imported.difficulty));
+              if (custom && !name) throw new Error('Ghost has no preset name');
+              const recording = custom ? { ...imported, difficulty: customDifficulty(name) } : imported;
+              setGhosts(saveRivalGhost(recording));
+              // A rival on a custom preset we don't have brings the preset along
+              if (custom && !customPresets[name] && recording.settings) {
+                  setCustomPresets(saveCustomPreset(name, recording.settings));
+              }
+              setDifficulty(recording.difficulty);
+              setGhostSource('RIVAL');
+              setGhostMode(true);
+              setGhostImportError(null);
+          })
+          .catch(() => setGhostImportError(t.errors.ghostFile));
+  };
+
+  // --- Replay Viewer ---
+
+  // Replays are re-simulated from the seed; seeking runs the recorded inputs silently up to the target tick
+  const seekReplay = (targetTick: number) => {
+      const run = replay.current;
+      if (!run) return;
+      sim.current = createSimulation(run.recording.difficulty, recordingSettings(run.recording), run.recording.seed, 1, run.recording.level ?? null);
+      run.cursor = createPlaybackCursor();
+      while (sim.current.tick < targetTick && !sim.current.crashed) {
+          stepSimulation(sim.current, [readRecordedInput(run.recording, run.cursor, sim.current.tick)]);
+      }
+      particles.current = [];
+      toasts.current.clear();
+      accumulator.current = 0;
+      syncScores();
+      setReplayTick(sim.current.tick);
+  };
+
+  const startReplay = (recording: RunRecording) => {
+      soundManager.init();
+      soundManager.resume();
+      soundManager.stopMusic();
+      replay.current = { recording, cursor: createPlaybackCursor(), paused: false, speed: 1 };
+      commentator.current.reset(null);
+      ghost.current = null;
+      setGhostDelta(null);
+      seekReplay(0);
+      setReplayPaused(false);
+      setReplaySpeed(1);
+      setGameState('REPLAY');
+  };
+
+  const toggleReplayPause = () => {
+      const run = replay.current;
+      if (!run) return;
+      // Pressing play at the end starts over
+      if (run.paused && sim.current.tick >= run.recording.ticks) seekReplay(0);
+      run.paused = !run.paused;
+      setReplayPaused(run.paused);
+  };
+
+  const changeReplaySpeed = (speed: number) => {
+      if (replay.current) replay.current.speed = speed;
+      setReplaySpeed(speed);
+  };
+
+  const exitReplay = () => {
+      replay.current = null;
+      sim.current = createSimulation(difficulty, resolveDifficulty(difficulty, customPresets), randomSeed(), birdCount());
+      particles.current = [];
+      toasts.current.clear();
+      syncScores();
+      setGameState('START');
+  };
+
   const handleInput = (e: React.MouseEvent | React.TouchEvent) => {
       if (gameState === 'PLAYING') {
-          const settings = DIFFICULTIES[difficulty];
-          player.current.dy = settings.jump;
-          soundManager.playJump();
-          
-          particles.current.push({
-              x: player.current.x,
-              y: player.current.y + player.current.h,
-              vx: -1, vy: 1, life: 0.5, color: 'white', size: 3
-          });
+          // Applied on the next simulation tick. In versus the right half of a touch screen is player two.
+          const touch = 'touches' in e ? e.touches[0] : null;
+          const rightHalf = !!touch && touch.clientX > window.innerWidth / 2;
+          inputManager.pressPointer(gameMode === 'VERSUS' && rightHalf ? 1 : 0);
+      }
+  };
+
+  // --- Pause ---
+
+  // The simulation only advances in PLAYING, so pipe spawning is frozen along with everything else
+  const pauseGame = () => {
+      if (gameState !== 'PLAYING') return;
+      soundManager.pauseMusic();
+      soundManager.suspend();
+      setGameState('PAUSED');
+  };
+  autoPause.current = pauseGame;
+
+  const resumeGame = () => {
+      soundManager.resume();
+      soundManager.resumeMusic();
+      // Presses made while paused must not fire on the first tick back
+      inputManager.clearPresses();
+      setGameState('PLAYING');
+  };
+
+  const quitToMenu = () => {
+      if (playtesting.current) {
+          backToEditor();
+          return;
+      }
+      soundManager.stopMusic();
+      soundManager.resume();
+      recorder.current = null;
+      ghost.current = null;
+      setGhostDelta(null);
+      sim.current = createSimulation(difficulty, resolveDifficulty(difficulty, customPresets), randomSeed(), birdCount());
+      particles.current = [];
+      toasts.current.clear();
+      syncScores();
+      setGameState('START');
+  };
+
+  // Menu handling for keyboard and gamepad actions; in-game actions are read per tick instead
+  const handleAction = (action: Action, source: InputSource, key?: string) => {
+      if (action === 'MUTE') {
+          const muted = !audioSettings.muted;
+          setAudioSettings({ ...audioSettings, muted });
+          if (gameState === 'PLAYING') spawnToast(muted ? t.events.soundOff : t.events.soundOn, '#FFFFFF');
+          return;
+      }
+      if (action === 'PAUSE') {
+          if (gameState === 'PLAYING') pauseGame();
+          else if (gameState === 'PAUSED') resumeGame();
+          return;
+      }
+      if (gameState !== 'START' && gameState !== 'GAME_OVER' && gameState !== 'PAUSED' && gameState !== 'PODIUM') return;
+      // Only the start and game over screens start a new run from a bare key press
+      const tournamentOver = !!tournament && isFinished(tournament);
+      const canStart = (gameState === 'START' || gameState === 'GAME_OVER') && !showControls && !showShop && !showTrophies && !showAudio && !showParty && editingPreset === null && !showTournamentSetup && !tournamentOver;
+      const menu = menuRef.current;
+      // Keyboard Enter/Space already activate a focused button natively
+      const focused = hasMenuFocus(menu);
+      const start = gameState === 'GAME_OVER' ? restartRun : startGame;
+
+      switch (action) {
+          case 'LEFT':
+              moveMenuFocus(menu, -1);
+              break;
+          case 'RIGHT':
+              moveMenuFocus(menu, 1);
+              break;
+          case 'FLAP':
+              if (source === 'gamepad' && focused) {
+                  (document.activeElement as HTMLElement).click();
+              } else if (!focused && canStart && !(key && MENU_NAV_KEYS.includes(key))) {
+                  // ↑ flaps in a game, but on a menu it only moves the focus
+                  start();
+              }
+              break;
+          case 'START':
+              if (canStart && (source === 'gamepad' || !focused)) start();
+              break;
       }
   };
+  actionHandler.current = handleAction;
 
   const handleCakeTrigger = () => {
       const newClicks = cakeClicks + 1;
       setCakeClicks(newClicks);
-      if (newClicks === 5) {
-          setIsCakeMode(true);
-          soundManager.playParty();
-          spawnParticles(CANVAS_WIDTH/2, CANVAS_HEIGHT/2, 'SCORE');
+      if (newClicks === 5 && !themeSettings.unlocked) {
+          // Finding the secret unlocks every theme, starting with cake. Once
+          // found, the picker's choice stands.
+          setThemeSettings({ unlocked: true, theme: 'CAKE' });
+          gameEvents.emit('cakeModeUnlocked', {});
       }
   };
 
@@ -651,11 +1533,10 @@ export default function Game() {
 
   const draw = (ctx: CanvasRenderingContext2D) => {
       // Background
-      ctx.fillStyle = '#70c5ce';
-      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      theme.drawBackground(ctx, Date.now());
 
       // Clouds
-      ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+      ctx.fillStyle = theme.cloudColor;
       clouds.current.forEach(c => {
           ctx.beginPath();
           ctx.arc(c.x, c.y, 30 * c.scale, 0, Math.PI * 2);
@@ -665,20 +1546,44 @@ export default function Game() {
       });
 
       // Pipes
-      const settings = DIFFICULTIES[difficulty];
-      pipes.current.forEach(pipe => {
-          drawPipe(ctx, pipe.x, 0, pipe.w, pipe.y, true); 
-          drawPipe(ctx, pipe.x, pipe.y + settings.gap, pipe.w, CANVAS_HEIGHT - (pipe.y + settings.gap), false); 
-      });
+      if (gameState === 'EDITOR') {
+          drawLevelEditor(ctx);
+      } else {
+          sim.current.pipes.forEach(pipe => drawObstacle(ctx, pipe));
+          sim.current.pipes.forEach(pipe => pipe.powerUp && drawPowerUp(ctx, pipe));
+          sim.current.coins.forEach(coin => drawCoin(ctx, coin));
+      }
 
       // Ground
-      ctx.fillStyle = '#ded895';
+      ctx.fillStyle = theme.ground[0];
       ctx.fillRect(0, CANVAS_HEIGHT - 20, CANVAS_WIDTH, 20);
-      ctx.fillStyle = '#73bf2e';
+      ctx.fillStyle = theme.ground[1];
       ctx.fillRect(0, CANVAS_HEIGHT - 20, CANVAS_WIDTH, 4);
 
-      // Player
-      drawPlayer(ctx);
+      // Ghost
+      const g = ghost.current;
+      if (g && gameState === 'PLAYING' && !g.sim.crashed) {
+          ctx.globalAlpha = 0.35;
+          drawPlayer(ctx, g.sim.birds[0].player);
+          ctx.globalAlpha = 1;
+      }
+
+      // Players; a crashed bird in versus stays where it fell, faded out
+      if (gameState !== 'EDITOR') sim.current.birds.forEach((bird, i) => {
+          if (bird.crashed && !sim.current.crashed) ctx.globalAlpha = 0.4;
+          // Blink during the grace period after a shield broke
+          if (bird.graceTicks > 0 && Math.floor(bird.graceTicks / 5) % 2 === 0) ctx.globalAlpha = 0.3;
+          // The equipped skin and the party's body colour belong to player one
+          drawPlayer(ctx, bird.player, i === 0 ? partyView.current.body || BIRD_COLORS[0] : BIRD_COLORS[i], bird.powerUps.SHRINK ? SHRINK_FACTOR : 1, i === 0 ? birdSkin(shopView.current.skin) : BIRD_SKINS[0]);
+          ctx.globalAlpha = 1;
+          if (bird.powerUps.SHIELD && !bird.crashed) drawShield(ctx, bird.player);
+      });
+
+      // Slow motion tints the world
+      if (sim.current.slowMotionTicks > 0 && gameState !== 'EDITOR') {
+          ctx.fillStyle = 'rgba(26, 188, 156, 0.12)';
+          ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      }
 
       // Particles
       particles.current.forEach(p => {
@@ -692,83 +1597,234 @@ export default function Game() {
       ctx.font = 'bold 28px "Comic Sans MS", cursive, sans-serif';
       ctx.lineWidth = 5;
       ctx.textAlign = 'center';
-      toasts.current.forEach(t => {
-          ctx.fillStyle = t.color || '#FFD700';
+      toasts.current.visible.forEach(toast => {
+          ctx.fillStyle = toast.color;
           ctx.strokeStyle = '#000';
-          ctx.globalAlpha = t.opacity;
-          ctx.strokeText(t.text, t.x, t.y);
-          ctx.fillText(t.text, t.x, t.y);
+          ctx.globalAlpha = toast.opacity;
+          ctx.strokeText(toast.text, CANVAS_WIDTH / 2, toast.y);
+          ctx.fillText(toast.text, CANVAS_WIDTH / 2, toast.y);
           ctx.globalAlpha = 1;
       });
+
+      const banner = achievementBanners.current[0];
+      if (banner) drawAchievementBanner(ctx, banner);
+
+      // Rewinding: a blue tint and a big ⏪
+      if (rewinding.current && gameState === 'PLAYING') {
+          ctx.save();
+          ctx.fillStyle = 'rgba(52, 152, 219, 0.15)';
+          ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+          ctx.font = 'bold 48px sans-serif';
+          ctx.textAlign = 'left';
+          ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+          ctx.fillText('⏪', 20, CANVAS_HEIGHT - 40);
+          ctx.restore();
+      }
   };
 
-  const drawPipe = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, isTop: boolean) => {
-      if (isCakeMode) {
-          const layers = Math.ceil(h / 20);
-          for(let i=0; i<layers; i++) {
-              const ly = isTop ? (y + h - 20 - i*20) : (y + i*20);
-              if (ly < y && !isTop) break;
-              if (ly < y && isTop) continue;
+  // Slides down from the top, stays a while and slides back up
+  const drawAchievementBanner = (ctx: CanvasRenderingContext2D, banner: AchievementBanner) => {
+      const a = achievement(banner.id);
+      const shown = ACHIEVEMENT_BANNER_LIFE - banner.life;
+      const slide = Math.min(1, shown / 20, banner.life / 20);
+      const w = 320;
+      const h = 56;
+      const x = (CANVAS_WIDTH - w) / 2;
+      const y = -h + slide * (h + 10);
+
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.85)';
+      ctx.strokeStyle = '#F1C40F';
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.roundRect(x, y, w, h, 10);
+      ctx.fill();
+      ctx.stroke();
+
+      ctx.textAlign = 'left';
+      ctx.font = '28px sans-serif';
+      ctx.fillText(a.icon, x + 12, y + 38);
+      ctx.fillStyle = '#F1C40F';
+      ctx.font = 'bold 12px sans-serif';
+      ctx.fillText(t.events.achievementUnlocked, x + 56, y + 22);
+      ctx.fillStyle = '#FFF';
+      ctx.font = 'bold 18px sans-serif';
+      ctx.fillText(t.achievements[a.id].name, x + 56, y + 44);
+      ctx.textAlign = 'center';
+  };
 
-              const colors = ['#8B4513', '#F5DEB3', '#FF69B4'];
-              ctx.fillStyle = colors[i % 3];
-              ctx.fillRect(x, ly, w, 20);
-              
-              ctx.fillStyle = '#FFF';
-              ctx.fillRect(x, ly, w, 5);
+  // The level as it will scroll past, with the start position and the selected obstacle marked
+  const drawLevelEditor = (ctx: CanvasRenderingContext2D) => {
+      const { obstacles, selected, scroll } = editorView.current;
+      obstacles.forEach((o, i) => {
+          const type = o.type || 'PIPE';
+          const shape = { type, x: o.x - scroll, y: o.gapY, w: obstacleWidth(type), gap: o.gap };
+          if (shape.x + shape.w < -10 || shape.x > CANVAS_WIDTH + 10) return;
+          drawObstacle(ctx, shape);
+          if (i === selected) {
+              ctx.strokeStyle = '#F1C40F';
+              ctx.lineWidth = 4;
+              ctx.strokeRect(shape.x - 6, o.gapY, shape.w + 12, o.gap);
           }
-          if (!isTop) {
-              ctx.fillStyle = '#F00';
-              ctx.fillRect(x + 10, y - 10, 4, 10);
-              ctx.fillStyle = '#FF0';
+          ctx.fillStyle = '#fff';
+          ctx.font = 'bold 14px sans-serif';
+          ctx.textAlign = 'center';
+          ctx.fillText(`${i + 1}${type === 'MOVING' ? ' ↕' : ''}${o.toast ? ' 💬' : ''}`, shape.x + shape.w / 2, o.gapY + o.gap / 2);
+      });
+
+      const start = createPlayer();
+      if (start.x - scroll > -start.w) {
+          ctx.globalAlpha = 0.6;
+          drawPlayer(ctx, { ...start, x: start.x - scroll });
+          ctx.globalAlpha = 1;
+      }
+  };
+
+  const drawObstacle = (ctx: CanvasRenderingContext2D, o: ObstacleShape) => {
+      if (o.type === 'SPIKES') {
+          drawSpikes(ctx, o);
+          return;
+      }
+      // The shop's pipe colours, for the themes that use them
+      const colors = pipeTheme(shopView.current.pipeTheme).colors;
+      obstacleColumns(o).forEach(c => {
+          theme.drawPipe(ctx, c.x, 0, c.w, o.y, true, o.type, colors);
+          theme.drawPipe(ctx, c.x, o.y + o.gap, c.w, CANVAS_HEIGHT - (o.y + o.gap), false, o.type, colors);
+      });
+  };
+
+  // Teeth in the theme's colours; with tips they become party hats with a pom-pom
+  const drawSpikes = (ctx: CanvasRenderingContext2D, o: ObstacleShape) => {
+      const bottomY = o.y + o.gap;
+      const colors = theme.spikeColors;
+      ctx.strokeStyle = '#000';
+      ctx.lineWidth = 2;
+      spikeTeeth(o).forEach((tx, i) => {
+          ctx.fillStyle = colors[i % colors.length];
+          ctx.beginPath();
+          ctx.moveTo(tx, 0);
+          ctx.lineTo(tx + SPIKE_WIDTH, 0);
+          ctx.lineTo(tx + SPIKE_WIDTH / 2, o.y);
+          ctx.closePath();
+          ctx.fill();
+          ctx.stroke();
+
+          ctx.beginPath();
+          ctx.moveTo(tx, CANVAS_HEIGHT);
+          ctx.lineTo(tx + SPIKE_WIDTH, CANVAS_HEIGHT);
+          ctx.lineTo(tx + SPIKE_WIDTH / 2, bottomY);
+          ctx.closePath();
+          ctx.fill();
+          ctx.stroke();
+
+          if (theme.spikeTips) {
+              ctx.fillStyle = theme.spikeTips;
               ctx.beginPath();
-              ctx.arc(x + 12, y - 12, 3 + Math.random()*2, 0, Math.PI*2);
+              ctx.arc(tx + SPIKE_WIDTH / 2, o.y, 4, 0, Math.PI * 2);
+              ctx.arc(tx + SPIKE_WIDTH / 2, bottomY, 4, 0, Math.PI * 2);
               ctx.fill();
           }
-      } else {
-          const grad = ctx.createLinearGradient(x, 0, x + w, 0);
-          grad.addColorStop(0, '#73bf2e');
-          grad.addColorStop(0.5, '#9ce659');
-          grad.addColorStop(1, '#558c22');
-          
-          ctx.fillStyle = grad;
-          ctx.fillRect(x, y, w, h);
-          
-          ctx.fillStyle = '#558c22';
-          ctx.strokeStyle = '#000';
-          ctx.lineWidth = 2;
-          const rimY = isTop ? y + h - 24 : y;
-          ctx.fillRect(x - 2, rimY, w + 4, 24);
-          ctx.strokeRect(x - 2, rimY, w + 4, 24);
-          
-          ctx.fillStyle = 'rgba(255,255,255,0.2)';
-          ctx.fillRect(x, rimY + 2, 4, 20);
+      });
+  };
+
+  // A glowing bubble behind the theme's icon
+  const drawPowerUp = (ctx: CanvasRenderingContext2D, pipe: Pipe) => {
+      const type = pipe.powerUp!;
+      const r = powerUpRect(pipe);
+      const cx = r.x + r.w / 2;
+      const cy = r.y + r.h / 2 + Math.sin(Date.now() * 0.006 + pipe.id) * 4;
+      ctx.fillStyle = POWER_UP_COLORS[type];
+      ctx.globalAlpha = 0.5;
+      ctx.beginPath();
+      ctx.arc(cx, cy, POWER_UP_SIZE * 0.75, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.globalAlpha = 1;
+      ctx.font = `${POWER_UP_SIZE}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(theme.powerUpIcons[type], cx, cy);
+      ctx.textBaseline = 'alphabetic';
+  };
+
+  // A gold coin, or a slice of layer cake
+  const drawCoin = (ctx: CanvasRenderingContext2D, coin: Coin) => {
+      const bob = Math.sin(Date.now() * 0.005 + coin.id) * 3;
+      const x = coin.x;
+      const y = coin.y + bob;
+      ctx.strokeStyle = '#000';
+      ctx.lineWidth = 2;
+      if (theme.coin === 'CAKE') {
+          ctx.fillStyle = '#F5DEB3';
+          ctx.beginPath();
+          ctx.moveTo(x, y + COIN_SIZE);
+          ctx.lineTo(x + COIN_SIZE, y + COIN_SIZE);
+          ctx.lineTo(x + COIN_SIZE, y + 4);
+          ctx.closePath();
+          ctx.fill();
+          ctx.stroke();
+          ctx.fillStyle = '#FF69B4';
+          ctx.fillRect(x + COIN_SIZE - 4, y + 4, 4, COIN_SIZE - 4);
+          ctx.fillStyle = '#E74C3C';
+          ctx.beginPath();
+          ctx.arc(x + COIN_SIZE - 2, y + 2, 3, 0, Math.PI * 2);
+          ctx.fill();
+          return;
       }
+      // Squashed horizontally to look like it spins
+      const spin = Math.abs(Math.cos(Date.now() * 0.004 + coin.id));
+      ctx.fillStyle = '#F1C40F';
+      ctx.beginPath();
+      ctx.ellipse(x + COIN_SIZE / 2, y + COIN_SIZE / 2, Math.max(2, COIN_SIZE / 2 * spin), COIN_SIZE / 2, 0, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+      ctx.fillStyle = '#F9E79F';
+      ctx.fillRect(x + COIN_SIZE / 2 - 1, y + 5, 2, COIN_SIZE - 10);
+  };
+
+  const drawShield = (ctx: CanvasRenderingContext2D, pl: Player) => {
+      ctx.strokeStyle = theme.shield[0];
+      ctx.fillStyle = theme.shield[1];
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.arc(pl.x + pl.w / 2, pl.y + pl.h / 2, pl.w * 0.9, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
   };
 
-  const drawPlayer = (ctx: CanvasRenderingContext2D) => {
-      const pl = player.current;
+  const drawPlayer = (ctx: CanvasRenderingContext2D, pl: Player, bodyColor = BIRD_COLORS[0], scale = 1, skin: BirdSkin = BIRD_SKINS[0]) => {
       const cx = pl.x + pl.w / 2;
       const cy = pl.y + pl.h / 2;
 
       ctx.save();
       ctx.translate(cx, cy);
       ctx.rotate(pl.angle);
+      ctx.scale(scale, scale);
 
       const offX = -pl.w / 2;
       const offY = -pl.h / 2;
 
       // Flag
-      ctx.fillStyle = '#555';
-      ctx.fillRect(offX - 2, offY, 4, 30);
-      ctx.fillStyle = '#C60C30';
-      ctx.fillRect(offX - 26, offY, 24, 16);
-      ctx.fillStyle = '#FFF';
-      ctx.fillRect(offX - 14, offY, 4, 16);
-      ctx.fillRect(offX - 26, offY + 6, 24, 4);
+      const flag = partyFlag(skin.flag, partyView.current);
+      if (flag !== 'NONE') {
+          const [field, cross, inner] = FLAG_COLORS[flag];
+          ctx.fillStyle = '#555';
+          ctx.fillRect(offX - 2, offY, 4, 30);
+          ctx.fillStyle = field;
+          ctx.fillRect(offX - 26, offY, 24, 16);
+          ctx.fillStyle = cross;
+          if (inner) {
+              ctx.fillRect(offX - 15, offY, 6, 16);
+              ctx.fillRect(offX - 26, offY + 5, 24, 6);
+              ctx.fillStyle = inner;
+              ctx.fillRect(offX - 13, offY, 2, 16);
+              ctx.fillRect(offX - 26, offY + 7, 24, 2);
+          } else {
+              ctx.fillRect(offX - 14, offY, 4, 16);
+              ctx.fillRect(offX - 26, offY + 6, 24, 4);
+          }
+      }
 
       // Body
-      ctx.fillStyle = '#E74C3C'; 
+      ctx.fillStyle = skin.body || bodyColor; 
       ctx.fillRect(offX, offY, pl.w, pl.h);
       
       // Face
@@ -794,15 +1850,97 @@ export default function Game() {
           }
       }
 
-      ctx.fillStyle = '#ecf0f1';
-      ctx.beginPath();
-      ctx.ellipse(offX + 16, offY + 18 + wingOffset, 10, 6, 0.2, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.stroke();
+      if (skin.arms) {
+          // Marcus shows off his biceps instead of flapping
+          ctx.fillStyle = '#F0B27A';
+          ctx.strokeStyle = '#000';
+          ctx.lineWidth = 1;
+          ctx.beginPath();
+          ctx.ellipse(offX + 14, offY + 20, 9, 6, 0, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.stroke();
+          ctx.beginPath();
+          ctx.ellipse(offX + 16, offY + 13 + wingOffset, 7, 4, -0.4, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.stroke();
+          ctx.fillRect(offX + 18, offY + 4 + wingOffset, 7, 7);
+          ctx.strokeRect(offX + 18, offY + 4 + wingOffset, 7, 7);
+      } else {
+          ctx.fillStyle = '#ecf0f1';
+          ctx.beginPath();
+          ctx.ellipse(offX + 16, offY + 18 + wingOffset, 10, 6, 0.2, 0, Math.PI * 2);
+          ctx.fill();
+          ctx.stroke();
+      }
+
+      drawHat(ctx, skin, offX, offY, pl.w);
 
       ctx.restore();
   };
 
+  // Sits on top of the body, in the player's rotated frame
+  const drawHat = (ctx: CanvasRenderingContext2D, skin: BirdSkin, offX: number, offY: number, w: number) => {
+      ctx.strokeStyle = '#000';
+      ctx.lineWidth = 1;
+      switch (skin.hat) {
+          case 'PARTY':
+              ctx.fillStyle = '#3498DB';
+              ctx.beginPath();
+              ctx.moveTo(offX + w / 2 - 8, offY);
+              ctx.lineTo(offX + w / 2 + 8, offY);
+              ctx.lineTo(offX + w / 2, offY - 20);
+              ctx.closePath();
+              ctx.fill();
+              ctx.stroke();
+              ctx.fillStyle = '#F1C40F';
+              ctx.beginPath();
+              ctx.arc(offX + w / 2, offY - 20, 3, 0, Math.PI * 2);
+              ctx.fill();
+              break;
+          case 'CROWN':
+              ctx.fillStyle = '#F1C40F';
+              ctx.beginPath();
+              ctx.moveTo(offX + 4, offY);
+              ctx.lineTo(offX + 4, offY - 12);
+              ctx.lineTo(offX + 10, offY - 6);
+              ctx.lineTo(offX + w / 2, offY - 14);
+              ctx.lineTo(offX + w - 10, offY - 6);
+              ctx.lineTo(offX + w - 4, offY - 12);
+              ctx.lineTo(offX + w - 4, offY);
+              ctx.closePath();
+              ctx.fill();
+              ctx.stroke();
+              break;
+          case 'CAP':
+              // Worn backwards, so the brim points behind him
+              ctx.fillStyle = '#E74C3C';
+              ctx.beginPath();
+              ctx.arc(offX + w / 2, offY, 11, Math.PI, 0);
+              ctx.fill();
+              ctx.stroke();
+              ctx.fillRect(offX - 4, offY - 3, 12, 3);
+              ctx.strokeRect(offX - 4, offY - 3, 12, 3);
+              break;
+          case 'VIKING':
+              ctx.fillStyle = '#ECF0F1';
+              [[offX + 6, -1], [offX + w - 6, 1]].forEach(([hx, dir]) => {
+                  ctx.beginPath();
+                  ctx.moveTo(hx, offY - 2);
+                  ctx.lineTo(hx + dir * 8, offY - 16);
+                  ctx.lineTo(hx + dir * 2, offY - 4);
+                  ctx.closePath();
+                  ctx.fill();
+                  ctx.stroke();
+              });
+              ctx.fillStyle = '#95A5A6';
+              ctx.beginPath();
+              ctx.arc(offX + w / 2, offY, 12, Math.PI, 0);
+              ctx.fill();
+              ctx.stroke();
+              break;
+      }
+  };
+
   return (
     <div 
         style={{ 
@@ -826,8 +1964,14 @@ export default function Game() {
               maxHeight: '100%', 
               boxShadow: '0 10px 30px rgba(0,0,0,0.5)',
               borderRadius: '8px',
-              cursor: 'pointer'
+              cursor: gameState === 'EDITOR' ? 'crosshair' : 'pointer',
+              touchAction: gameState === 'EDITOR' ? 'none' : 'auto'
           }}
+          onPointerDown={handleEditorPointerDown}
+          onPointerMove={handleEditorPointerMove}
+          onPointerUp={handleEditorPointerUp}
+          onPointerCancel={handleEditorPointerUp}
+          onWheel={(e: React.WheelEvent) => gameState === 'EDITOR' && scrollEditor(e.deltaX || e.deltaY)}
       />
 
       {/* UI Layer */}
@@ -844,12 +1988,119 @@ export default function Game() {
           color: 'white',
           textShadow: '2px 2px 0 #000'
       }}>
-          {score}
+          {gameState === 'EDITOR' ? null : gameMode === 'VERSUS' && gameState !== 'START' ? (
+              <div style={{ display: 'flex', justifyContent: 'center', gap: '40px' }}>
+                  {scores.map((s, i) => (
+                      <span key={i} style={{ color: BIRD_COLORS[i] }}>{t.hud.versusScore(i + 1, s)}</span>
+                  ))}
+              </div>
+          ) : score}
+          {dailyRun.current && (gameState === 'PLAYING' || gameState === 'PAUSED') && (
+              <div style={{ fontSize: '16px', color: '#BB8FCE' }}>📅 {dailyRun.current.scored ? t.hud.dailyAttempt : t.hud.practice}</div>
+          )}
+          {botRun.current && (gameState === 'PLAYING' || gameState === 'PAUSED') && (
+              <div style={{ fontSize: '16px', color: '#85C1E9' }}>{t.hud.bot}</div>
+          )}
+          {rewindBuffer.current && (gameState === 'PLAYING' || gameState === 'PAUSED') && (
+              <div style={{ fontSize: '16px', color: '#76D7C4' }}>
+                  {t.hud.rewinds(rewindCount)}
+                  {bindings.REWIND.keys.length > 0 && (
+                      <div style={{ fontSize: '12px', fontWeight: 'normal' }}>{t.hud.rewindHelp(keyLabel(bindings.REWIND.keys[0], t.keys))}</div>
+                  )}
+              </div>
+          )}
+          {runCoins > 0 && (gameState === 'PLAYING' || gameState === 'PAUSED') && (
+              <div style={{ fontSize: '18px', color: '#F1C40F', marginTop: '4px' }}>{theme.coinIcon} {runCoins}</div>
+          )}
+          {powerUpTimers.length > 0 && (gameState === 'PLAYING' || gameState === 'PAUSED' || gameState === 'REPLAY') && (
+              <div style={{ display: 'flex', justifyContent: 'center', gap: '12px', fontSize: '18px', marginTop: '4px' }}>
+                  {powerUpTimers.map(timer => (
+                      <span key={`${timer.type}-${timer.bird}`} style={{ color: timer.bird !== null && gameMode === 'VERSUS' ? BIRD_COLORS[timer.bird] : POWER_UP_COLORS[timer.type] }}>
+                          {theme.powerUpIcons[timer.type]} {timer.seconds}s
+                      </span>
+                  ))}
+              </div>
+          )}
+          {ghostDelta !== null && gameState === 'PLAYING' && (
+              <div style={{ fontSize: '20px', color: ghostDelta > 0 ? '#2ECC71' : ghostDelta < 0 ? '#E74C3C' : 'white' }}>
+                  {t.hud.ghostDelta(`${ghostDelta > 0 ? '+' : ''}${ghostDelta}`)}
+              </div>
+          )}
       </div>
 
+      {/* Pause Button */}
+      {gameState === 'PLAYING' && (
+          <button
+              onMouseDown={(e: React.MouseEvent) => e.stopPropagation()}
+              onTouchStart={(e: React.TouchEvent) => e.stopPropagation()}
+              onClick={pauseGame}
+              style={{
+                  position: 'absolute',
+                  top: 20,
+                  right: 20,
+                  width: '44px',
+                  height: '44px',
+                  fontSize: '20px',
+                  backgroundColor: 'rgba(0,0,0,0.5)',
+                  color: 'white',
+                  border: '2px solid white',
+                  borderRadius: '8px',
+                  cursor: 'pointer'
+              }}
+          >
+              ❚❚
+          </button>
+      )}
+
+      {/* Pause Screen */}
+      {gameState === 'PAUSED' && (
+          <div ref={menuRef} style={{
+              position: 'absolute',
+              backgroundColor: 'rgba(0,0,0,0.85)',
+              padding: '40px',
+              borderRadius: '16px',
+              textAlign: 'center',
+              color: 'white',
+              border: '2px solid #f1c40f',
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '12px'
+          }}>
+              <h2 style={{ fontSize: '48px', color: '#f1c40f', margin: '0 0 10px 0', textShadow: '2px 2px 0 #000' }}>{t.pause.title}</h2>
+              {[
+                  { label: t.pause.resume, onClick: resumeGame, color: '#27AE60', shadow: '#219150' },
+                  // Restarting would throw away today's only scored daily attempt
+                  ...(dailyRun.current?.scored ? [] : [{ label: t.pause.restart, onClick: restartRun, color: '#3498DB', shadow: '#2980B9' }]),
+                  { label: t.pause.menu, onClick: quitToMenu, color: '#7f8c8d', shadow: '#606c6d' }
+              ].map(b => (
+                  <button
+                      key={b.label}
+                      onClick={b.onClick}
+                      style={{ ...bigButton(b.color, b.shadow), padding: '12px 40px', fontSize: '20px' }}
+                  >
+                      {b.label}
+                  </button>
+              ))}
+          </div>
+      )}
+
+      {/* Replay Viewer */}
+      {gameState === 'REPLAY' && replay.current && (
+          <ReplayControls
+              tick={replayTick}
+              totalTicks={replay.current.recording.ticks}
+              paused={replayPaused}
+              speed={replaySpeed}
+              onTogglePause={toggleReplayPause}
+              onSeek={seekReplay}
+              onSpeedChange={changeReplaySpeed}
+              onExit={exitReplay}
+          />
+      )}
+
       {/* Start Screen */}
       {gameState === 'START' && (
-          <div style={{
+          <div ref={menuRef} style={{
               position: 'absolute',
               backgroundColor: 'rgba(255,255,255,0.95)',
               padding: '30px',
@@ -860,6 +2111,17 @@ export default function Game() {
               maxHeight: '90%',
               overflowY: 'auto'
           }}>
+              <div style={{ display: 'flex', gap: '4px', justifyContent: 'flex-end', margin: '-15px -15px 5px 0' }}>
+                  {LOCALES.map(l => (
+                      <button
+                          key={l}
+                          onClick={() => onLocaleChange(l)}
+                          style={{ ...smallButton(locale === l && '#E74C3C'), padding: '2px 8px', fontSize: '11px' }}
+                      >
+                          {getStrings(l).language}
+                      </button>
+                  ))}
+              </div>
               <h1 
                   onClick={handleCakeTrigger}
                   style={{ 
@@ -871,93 +2133,278 @@ export default function Game() {
                       textShadow: '2px 2px 0px rgba(0,0,0,0.1)'
                   }}
               >
-                  {isCakeMode ? "🎂 PARTY NICHLAS 🎂" : "FLAPPY NICHLAS"}
+                  {t.themes[theme.id].title}
               </h1>
-              
-              <div style={{ marginBottom: '20px' }}>
-                  <p style={{marginBottom:'10px', fontWeight:'bold', color:'#555'}}>DIFFICULTY</p>
-                  <div style={{ display: 'flex', gap: '10px', justifyContent: 'center' }}>
-                      {(['EASY', 'MEDIUM', 'HARD'] as Difficulty[]).map(d => (
+              {themeSettings.unlocked && !showControls && editingPreset === null && !showShop && !showTrophies && !showAudio && !showParty && (
+                  <div style={{ display: 'flex', gap: '6px', justifyContent: 'center', flexWrap: 'wrap', margin: '-10px 0 15px 0' }}>
+                      {THEMES.map(th => (
                           <button
-                              key={d}
-                              onClick={() => setDifficulty(d)}
-                              style={{
-                                  padding: '8px 16px',
-                                  backgroundColor: difficulty === d ? '#E74C3C' : '#eee',
-                                  color: difficulty === d ? 'white' : '#555',
-                                  border: 'none',
-                                  borderRadius: '4px',
-                                  cursor: 'pointer',
-                                  fontWeight: 'bold',
-                                  transform: difficulty === d ? 'scale(1.1)' : 'scale(1)',
-                                  transition: 'all 0.2s',
-                                  boxShadow: difficulty === d ? '0 2px 5px rgba(0,0,0,0.2)' : 'none'
-                              }}
+                              key={th.id}
+                              onClick={() => setThemeSettings({ unlocked: true, theme: th.id })}
+                              style={smallButton(theme.id === th.id && '#E74C3C')}
                           >
-                              {d}
+                              {t.themes[th.id].name}
                           </button>
                       ))}
                   </div>
-                  <div style={{marginTop: '10px', fontSize: '12px', color: '#666'}}>
-                    Brug Pile-tasterne/A-D for at flyve frem og tilbage!
-                  </div>
-              </div>
-
-              {/* Scoreboard */}
-              <div style={{ 
-                  marginTop: '15px', 
-                  background: '#f9f9f9', 
-                  padding: '15px', 
-                  borderRadius: '8px',
-                  border: '1px solid #ddd'
-              }}>
-                  <h3 style={{ margin: '0 0 10px 0', color: '#D35400', fontSize: '20px' }}>🏆 TOP 5 ({difficulty}) 🏆</h3>
-                  {highScores[difficulty].length === 0 ? (
-                      <div style={{color: '#999', fontStyle: 'italic'}}>Ingen rekorder endnu!</div>
+              )}
+              
+              {showControls ? (
+                  <ControlsScreen
+                      bindings={bindings}
+                      input={inputManager}
+                      onChange={setBindings}
+                      onClose={() => setShowControls(false)}
+                  />
+              ) : editingPreset !== null ? (
+                  <DifficultyEditor
+                      presets={customPresets}
+                      name={editingPreset}
+                      onSave={savePreset}
+                      onDelete={removePreset}
+                      onClose={() => setEditingPreset(null)}
+                  />
+              ) : showTrophies ? (
+                  <TrophyScreen unlocked={achievements} onClose={() => setShowTrophies(false)} />
+              ) : showParty ? (
+                  <PartyPanel
+                      party={party}
+                      onSave={next => {
+                          onPartyChange(next);
+                          setShowParty(false);
+                      }}
+                      onClose={() => setShowParty(false)}
+                  />
+              ) : showAudio ? (
+                  <AudioPanel
+                      settings={audioSettings}
+                      muteKey={bindings.MUTE.keys.length > 0 ? keyLabel(bindings.MUTE.keys[0], t.keys) : null}
+                      onChange={setAudioSettings}
+                      onClose={() => setShowAudio(false)}
+                  />
+              ) : showShop ? (
+                  <ShopPanel
+                      shop={shop}
+                      onBuy={buyShopItem}
+                      onEquip={equipShopItem}
+                      onClose={() => setShowShop(false)}
+                  />
+              ) : showTournamentSetup ? (
+                  <TournamentPanel
+                      tournament={null}
+                      difficulty={difficulty}
+                      onCreate={beginTournament}
+                      onAbort={() => setTournament(null)}
+                      onClose={() => setShowTournamentSetup(false)}
+                  />
+              ) : (
+                  <>
+                  {tournament ? (
+                      <TournamentPanel
+                          tournament={tournament}
+                          difficulty={difficulty}
+                          onCreate={beginTournament}
+                          onAbort={() => setTournament(null)}
+                          onClose={() => setShowTournamentSetup(false)}
+                      />
                   ) : (
-                      <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
-                          {highScores[difficulty].map((s, i) => (
-                              <div key={i} style={{ 
-                                  display: 'flex', 
-                                  justifyContent: 'space-between', 
-                                  width: '220px',
-                                  margin: '0 auto',
-                                  fontWeight: i === 0 ? 'bold' : 'normal',
-                                  color: i === 0 ? '#E67E22' : '#555',
-                                  borderBottom: i < 4 ? '1px dashed #eee' : 'none',
-                                  paddingBottom: i < 4 ? '4px' : '0'
-                              }}>
-                                  <span>#{i+1}</span>
-                                  <span>{s} point{s !== 1 ? 's' : ''}</span>
-                              </div>
+                  <div style={{ marginBottom: '20px' }}>
+                      <p style={{marginBottom:'10px', fontWeight:'bold', color:'#555'}}>{t.start.difficulty}</p>
+                      <div style={{ display: 'flex', gap: '10px', justifyContent: 'center', flexWrap: 'wrap' }}>
+                          {[...PRESET_DIFFICULTIES, ...Object.keys(customPresets).map(customDifficulty)].map(d => (
+                              <button
+                                  key={d}
+                                  onClick={() => setDifficulty(d)}
+                                  style={{
+                                      ...menuButton(difficulty === d && '#E74C3C'),
+                                      transform: difficulty === d ? 'scale(1.1)' : 'scale(1)',
+                                      transition: 'all 0.2s',
+                                      boxShadow: difficulty === d ? '0 2px 5px rgba(0,0,0,0.2)' : 'none'
+                                  }}
+                              >
+                                  {difficultyName(t, d)}{customPresets[difficultyLabel(d)]?.ramp ? ' 📈' : ''}
+                              </button>
                           ))}
                       </div>
+                      <div style={{ display: 'flex', gap: '6px', justifyContent: 'center', marginTop: '8px' }}>
+                          <button onClick={() => setEditingPreset('')} style={smallButton()}>
+                              {t.start.newPreset}
+                          </button>
+                          {isCustomDifficulty(difficulty) && (
+                              <button onClick={() => setEditingPreset(difficultyLabel(difficulty))} style={smallButton()}>
+                                  {t.start.editPreset}
+                              </button>
+                          )}
+                      </div>
+                      <div style={{ display: 'flex', gap: '10px', justifyContent: 'center', marginTop: '12px' }}>
+                          {(['SOLO', 'VERSUS'] as GameMode[]).map(m => (
+                              <button
+                                  key={m}
+                                  onClick={() => setGameMode(m)}
+                                  style={{ ...menuButton(gameMode === m && '#3498DB'), padding: '6px 12px' }}
+                              >
+                                  {t.start.players(m === 'SOLO' ? 1 : 2)}
+                              </button>
+                          ))}
+                      </div>
+                      <div style={{marginTop: '10px', fontSize: '12px', color: '#666'}}>
+                        {gameMode === 'VERSUS'
+                          ? t.start.versusHelp
+                          : t.start.soloHelp}
+                      </div>
+                  </div>
+                  )}
+
+                  <Scoreboard
+                      difficulty={difficulty}
+                      tab={scoreboardTab}
+                      entries={scoreboardTab === 'LOCAL' ? topList(highScores, difficulty) : remoteBoard.entries}
+                      notice={scoreboardTab === 'LOCAL' ? null : remoteBoard.notice}
+                      importError={scoreImportError}
+                      serverUrl={serverUrl}
+                      onTabChange={setScoreboardTab}
+                      onServerUrlChange={changeServerUrl}
+                      onExport={() => exportHighScores(highScores)}
+                      onImport={importScores}
+                  />
+
+                  {!tournament && (
+                  <GhostPanel
+                      slots={ghostSlots(ghosts, difficulty)}
+                      enabled={ghostMode}
+                      source={ghostSource}
+                      importError={ghostImportError}
+                      onToggle={() => setGhostMode(!ghostMode)}
+                      onSourceChange={setGhostSource}
+                      onExport={() => ghostSlots(ghosts, difficulty).best && exportGhostFile(ghostSlots(ghosts, difficulty).best!)}
+                      onImport={importGhost}
+                      onClearRival={() => setGhosts(clearRivalGhost(difficulty))}
+                  />
+                  )}
+
+                  {!tournament && gameMode === 'SOLO' && (
+                      <DailyPanel
+                          daily={daily}
+                          today={dayKey()}
+                          onPlay={() => startDaily(true)}
+                          onPractice={() => startDaily(false)}
+                      />
+                  )}
+
+                  {/* Saved Replays */}
+                  {savedReplays.length > 0 && (
+                      <div style={{ 
+                          marginTop: '15px', 
+                          background: '#f9f9f9', 
+                          padding: '15px', 
+                          borderRadius: '8px',
+                          border: '1px solid #ddd'
+                      }}>
+                          <h3 style={{ margin: '0 0 10px 0', color: '#2980B9', fontSize: '20px' }}>{t.start.savedReplays}</h3>
+                          <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+                              {savedReplays.map(r => (
+                                  <div key={r.recordedAt} style={{ 
+                                      display: 'flex', 
+                                      justifyContent: 'space-between', 
+                                      alignItems: 'center',
+                                      gap: '10px',
+                                      color: '#555'
+                                  }}>
+                                      <span>{new Date(r.recordedAt).toLocaleDateString()} · {difficultyName(t, r.difficulty)} · {r.score}</span>
+                                      <span>
+                                          <button onClick={() => startReplay(r)} style={iconButton}>▶</button>
+                                          <button onClick={() => setSavedReplays(deleteReplay(r.recordedAt))} style={iconButton}>✕</button>
+                                      </span>
+                                  </div>
+                              ))}
+                          </div>
+                      </div>
                   )}
-              </div>
               
-              <button 
-                  onClick={startGame}
-                  style={{
-                      padding: '15px 40px',
-                      fontSize: '24px',
-                      backgroundColor: '#27AE60',
-                      color: 'white',
-                      border: 'none',
-                      borderRadius: '8px',
-                      cursor: 'pointer',
-                      marginTop: '20px',
-                      boxShadow: '0 4px 0 #219150',
-                      fontWeight: 'bold'
-                  }}
-              >
-                  START SPIL
-              </button>
+                  <button 
+                      onClick={() => setShowControls(true)}
+                      style={{ ...stackedMenuButton, marginTop: '15px' }}
+                  >
+                      {t.start.controls}
+                  </button>
+                  {!tournament && (
+                      <button 
+                          onClick={openEditor}
+                          style={stackedMenuButton}
+                      >
+                          {t.start.levelEditor}
+                      </button>
+                  )}
+                  {!tournament && (
+                      <button 
+                          onClick={() => setShowTournamentSetup(true)}
+                          style={stackedMenuButton}
+                      >
+                          {t.start.tournament}
+                      </button>
+                  )}
+                  {!tournament && (
+                      <button 
+                          onClick={watchBot}
+                          style={stackedMenuButton}
+                      >
+                          {t.start.watchBot}
+                      </button>
+                  )}
+                  {!tournament && (
+                      <button 
+                          onClick={startRewindPractice}
+                          style={stackedMenuButton}
+                      >
+                          {t.start.rewindPractice}
+                      </button>
+                  )}
+                  <button 
+                      onClick={() => setShowShop(true)}
+                      style={stackedMenuButton}
+                  >
+                      {t.start.shop} ({shop.coins} {theme.coinIcon})
+                  </button>
+                  <button 
+                      onClick={() => setShowTrophies(true)}
+                      style={stackedMenuButton}
+                  >
+                      {t.start.trophies} ({ACHIEVEMENTS.filter(a => achievements[a.id]).length}/{ACHIEVEMENTS.length})
+                  </button>
+                  <button 
+                      onClick={() => setShowAudio(true)}
+                      style={stackedMenuButton}
+                  >
+                      {audioSettings.muted ? '🔇' : '🔊'} {t.start.sound}
+                  </button>
+                  <button 
+                      onClick={() => setShowParty(true)}
+                      style={stackedMenuButton}
+                  >
+                      {t.start.party}
+                  </button>
+              
+                  {activeLevel && (
+                      <div style={{ marginTop: '15px', color: '#555', fontWeight: 'bold' }}>
+                          {t.start.level(activeLevel.name)}{' '}
+                          <button onClick={() => setActiveLevel(null)} style={iconButton}>✕</button>
+                      </div>
+                  )}
+
+                  <button 
+                      onClick={tournament && isFinished(tournament) ? showPodium : startGame}
+                      style={{ ...bigButton('#27AE60', '#219150'), marginTop: '20px' }}
+                  >
+                      {tournament && isFinished(tournament) ? t.gameOver.showPodium : tournament && currentTurn(tournament) ? t.start.tournamentTurn(tournament.names[currentTurn(tournament)!.guest]) : t.start.play}
+                  </button>
+                  </>
+              )}
           </div>
       )}
 
       {/* Game Over Screen */}
       {gameState === 'GAME_OVER' && (
-          <div style={{
+          <div ref={menuRef} style={{
               position: 'absolute',
               backgroundColor: 'rgba(0,0,0,0.85)',
               padding: '40px',
@@ -967,42 +2414,189 @@ export default function Game() {
               border: '2px solid #E74C3C',
               maxWidth: '90%'
           }}>
-              <h2 style={{ fontSize: '32px', color: '#f1c40f', margin: '0 0 10px 0', textShadow: '2px 2px 0 #000' }}>FLAPPY NICHLAS</h2>
-              <h2 style={{ fontSize: '48px', color: '#E74C3C', margin: '0 0 10px 0', textShadow: '2px 2px 0 #000' }}>GAME OVER</h2>
+              <h2 style={{ fontSize: '32px', color: '#f1c40f', margin: '0 0 10px 0', textShadow: '2px 2px 0 #000' }}>{t.themes.CLASSIC.title}</h2>
+              <h2 style={{ fontSize: '48px', color: '#E74C3C', margin: '0 0 10px 0', textShadow: '2px 2px 0 #000' }}>{t.gameOver.title}</h2>
               <div style={{ fontSize: '22px', color: '#fff', margin: '10px 0 20px 0', fontStyle: 'italic' }}>
-                  "Marcus kommer og løfter dig op!"
+                  {t.gameOver.tagline}
               </div>
               
-              <div style={{ fontSize: '28px', marginBottom: '20px' }}>
-                  Score: {score} <br/>
-                  <div style={{marginTop: '10px', fontSize: '18px', color: '#f1c40f'}}>
-                    Top Score: {highScores[difficulty].length > 0 ? highScores[difficulty][0] : score}
+              {tournament ? (
+                  <div style={{ fontSize: '24px', marginBottom: '20px' }}>
+                      {t.gameOver.tournamentScore(tournament.names[(tournament.turn - 1) % tournament.names.length], score)}
+                      <TournamentStandings tournament={tournament} dark />
                   </div>
-              </div>
+              ) : gameMode === 'VERSUS' ? (
+                  <div style={{ fontSize: '28px', marginBottom: '20px' }}>
+                      {versusWinner() === null ? t.gameOver.draw : (
+                          <span style={{ color: BIRD_COLORS[versusWinner()!] }}>{t.gameOver.winner(t.player(versusWinner()! + 1))}</span>
+                      )}
+                      <div style={{ marginTop: '10px', fontSize: '20px' }}>
+                          {scores.map((s, i) => (
+                              <div key={i} style={{ color: BIRD_COLORS[i] }}>{t.player(i + 1)}: {s}</div>
+                          ))}
+                      </div>
+                  </div>
+              ) : (
+                  <div style={{ fontSize: '28px', marginBottom: '20px' }}>
+                      {sim.current.level && (
+                          <div style={{ fontSize: '22px', color: sim.current.completed ? '#2ECC71' : '#fff', marginBottom: '8px' }}>
+                              {sim.current.completed ? t.gameOver.levelComplete : `🧱 ${sim.current.level.name}`}
+                          </div>
+                      )}
+                      {dailyRun.current && (
+                          <div style={{ fontSize: '20px', color: '#BB8FCE', marginBottom: '8px' }}>
+                              {dailyRun.current.scored
+                                  ? t.gameOver.dailyStreak(currentStreak(daily, dailyRun.current.day))
+                                  : t.gameOver.practice}
+                          </div>
+                      )}
+                      {t.gameOver.score(score)} <br/>
+                      {runCoins > 0 && (
+                          <div style={{ fontSize: '18px', color: '#F1C40F' }}>{t.gameOver.coins(runCoins, theme.coinIcon, shop.coins)}</div>
+                      )}
+                      <div style={{marginTop: '10px', fontSize: '18px', color: '#f1c40f'}}>
+                        {t.gameOver.topScore(dailyRun.current ? daily.best[0]?.score ?? score : topList(highScores, difficulty).length > 0 ? topList(highScores, difficulty)[0].score : score)}
+                      </div>
+                  </div>
+              )}
+              {newEntry && (
+                  <form
+                      onSubmit={(e: React.FormEvent) => {
+                          e.preventDefault();
+                          submitEntryName();
+                      }}
+                      style={{ marginBottom: '20px' }}
+                  >
+                      <div style={{ fontSize: '18px', color: '#2ECC71', marginBottom: '8px' }}>
+                          {t.gameOver.newEntry(newEntry.rank + 1)}
+                      </div>
+                      <input
+                          type="text"
+                          autoFocus
+                          maxLength={16}
+                          value={playerName}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPlayerName(e.target.value)}
+                          style={{ padding: '8px', fontSize: '18px', borderRadius: '4px', border: 'none', width: '180px', fontFamily: 'inherit' }}
+                      />
+                      <button
+                          type="submit"
+                          style={{ ...menuButton('#27AE60'), marginLeft: '8px' }}
+                      >
+                          {t.common.save}
+                      </button>
+                  </form>
+              )}
               <button 
-                  onClick={startGame}
-                  style={{
-                      padding: '15px 40px',
-                      fontSize: '24px',
-                      backgroundColor: '#3498DB',
-                      color: 'white',
-                      border: 'none',
-                      borderRadius: '8px',
-                      cursor: 'pointer',
-                      boxShadow: '0 4px 0 #2980B9',
-                      fontWeight: 'bold'
-                  }}
+                  onClick={tournament && isFinished(tournament) ? showPodium : restartRun}
+                  style={bigButton('#3498DB', '#2980B9')}
               >
-                  PRØV IGEN
+                  {!tournament ? t.gameOver.tryAgain : isFinished(tournament) ? t.gameOver.showPodium : t.gameOver.next(tournament.names[currentTurn(tournament)!.guest])}
               </button>
+              {lastRun && (
+                  <div style={{ display: 'flex', gap: '10px', justifyContent: 'center', marginTop: '15px' }}>
+                      <button 
+                          onClick={() => startReplay(lastRun)}
+                          style={menuButton()}
+                      >
+                          {t.gameOver.watchReplay}
+                      </button>
+                      <button 
+                          onClick={() => setSavedReplays(saveReplay(lastRun))}
+                          disabled={savedReplays.some(r => r.recordedAt === lastRun.recordedAt)}
+                          style={menuButton()}
+                      >
+                          {savedReplays.some(r => r.recordedAt === lastRun.recordedAt) ? t.gameOver.replaySaved : t.gameOver.saveReplay}
+                      </button>
+                  </div>
+              )}
+          </div>
+      )}
+
+      {/* Level Editor */}
+      {gameState === 'EDITOR' && (
+          <LevelEditorPanel
+              name={editor.name}
+              obstacleCount={editor.obstacles.length}
+              selected={editor.selected !== null ? editor.obstacles[editor.selected] : null}
+              importError={levelImportError}
+              onNameChange={name => updateEditor({ name })}
+              onSelectedChange={changeSelectedObstacle}
+              onDeleteSelected={deleteSelectedObstacle}
+              onScroll={scrollEditor}
+              onPlaytest={playtestLevel}
+              onPlay={playEditorLevel}
+              onExport={() => exportLevel(levelFromPlaced(editor.name, editor.obstacles))}
+              onImport={importLevel}
+              onClear={() => updateEditor({ obstacles: [], selected: null, scroll: 0 })}
+              onClose={() => setGameState('START')}
+          />
+      )}
+
+      {/* Tournament Podium */}
+      {gameState === 'PODIUM' && tournament && (
+          <div ref={menuRef} style={{
+              position: 'absolute',
+              backgroundColor: 'rgba(0,0,0,0.85)',
+              padding: '40px',
+              borderRadius: '16px',
+              textAlign: 'center',
+              color: 'white',
+              border: '2px solid #F1C40F',
+              maxWidth: '90%'
+          }}>
+              <Podium
+                  tournament={tournament}
+                  onNewTournament={() => leavePodium(true)}
+                  onMenu={() => leavePodium(false)}
+              />
           </div>
       )}
     </div>
   );
 }
 
+// Owns the locale and the party so every component, the game included, reads
+// the same catalog with the same names in it
+function App() {
+  const [locale, setLocale] = useState<Locale>(() => loadLocale());
+  // A shared link wins over what is saved, and is saved in turn so a reload
+  // keeps it; the hash is dropped so it doesn't stick to the address bar
+  const [party, setParty] = useState<PartyConfig>(() => {
+      const linked = partyFromLink(window.location.hash, window.location.search);
+      if (!linked) return loadParty();
+      saveParty(linked);
+      window.history.replaceState(null, '', window.location.pathname);
+      return linked;
+  });
+  const strings = useMemo(() => personalise(getStrings(locale), party), [locale, party]);
+
+  useEffect(() => {
+      document.documentElement.lang = locale;
+  }, [locale]);
+
+  useEffect(() => {
+      document.title = `Flappy ${party.name}`;
+  }, [party.name]);
+
+  const changeLocale = (next: Locale) => {
+      setLocale(next);
+      saveLocale(next);
+  };
+
+  const changeParty = (next: PartyConfig) => {
+      setParty(next);
+      saveParty(next);
+  };
+
+  return (
+    <StringsContext.Provider value={strings}>
+      <Game locale={locale} onLocaleChange={changeLocale} party={party} onPartyChange={changeParty} />
+    </StringsContext.Provider>
+  );
+}
+
 const rootElement = document.getElementById('root');
 if (rootElement) {
   const root = createRoot(rootElement);
-  root.render(<Game />);
+  root.render(<App />);
 }
\ No newline at end of file
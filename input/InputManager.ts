@@ -0,0 +1,168 @@
+import { ACTIONS, Action, Bindings } from './bindings';
+
+// --- Input System ---
+// Turns keyboard, mouse/touch and gamepad input into actions. Held state
+// (LEFT/RIGHT) is queried every tick; presses are both queued for the
+// simulation and announced to subscribers, which drive the menus.
+// The first gamepad belongs to player one; on any further gamepad FLAP
+// becomes FLAP_P2 so two pads can play versus without rebinding.
+
+export type InputSource = 'keyboard' | 'pointer' | 'gamepad';
+
+// `key` is the key code for keyboard presses
+export type ActionListener = (action: Action, source: InputSource, key?: string) => void;
+
+// What the rebinding screen receives instead of an action while capturing
+export type CapturedInput = { key: string } | { button: number };
+
+const STICK_DEADZONE = 0.5;
+
+// Typing a name or nudging a slider must not flap or move through the menus
+const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLInputElement && ['text', 'search', 'number', 'range'].includes(target.type));
+
+export class InputManager {
+  bindings: Bindings;
+  heldKeys = new Set<string>();
+  heldButtons = new Set<number>(); // Across all pads
+  padButtons = new Map<number, Set<number>>(); // Per pad index, for press edges
+  stickX = 0;
+  pendingPresses = new Set<Action>();
+  listeners: ActionListener[] = [];
+  captureCallback: ((input: CapturedInput) => void) | null = null;
+
+  constructor(bindings: Bindings) {
+    this.bindings = bindings;
+  }
+
+  attach() {
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+    window.addEventListener('blur', this.releaseAll);
+  }
+
+  detach() {
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+    window.removeEventListener('blur', this.releaseAll);
+  }
+
+  subscribe(listener: ActionListener) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  setBindings(bindings: Bindings) {
+    this.bindings = bindings;
+  }
+
+  // The next key or gamepad button goes to `callback` instead of triggering an action
+  captureNext(callback: (input: CapturedInput) => void) {
+    this.captureCallback = callback;
+  }
+
+  cancelCapture() {
+    this.captureCallback = null;
+  }
+
+  isHeld(action: Action): boolean {
+    const binding = this.bindings[action];
+    if (binding.keys.some(k => this.heldKeys.has(k))) return true;
+    if (binding.buttons.some(b => this.heldButtons.has(b))) return true;
+    if (action === 'LEFT') return this.stickX < -STICK_DEADZONE;
+    if (action === 'RIGHT') return this.stickX > STICK_DEADZONE;
+    return false;
+  }
+
+  // True once per press since the last call (or since clearPresses)
+  consumePress(action: Action): boolean {
+    const pressed = this.pendingPresses.has(action);
+    this.pendingPresses.delete(action);
+    return pressed;
+  }
+
+  clearPresses() {
+    this.pendingPresses.clear();
+  }
+
+  // Mouse and touch only ever flap; `player` 1 is the right half of a touch screen in versus
+  pressPointer(player = 0) {
+    this.press(player === 0 ? 'FLAP' : 'FLAP_P2', 'pointer');
+  }
+
+  // The Gamepad API has no events for buttons, so this runs once per animation frame
+  pollGamepads() {
+    if (!navigator.getGamepads) return;
+    const nowHeld = new Set<number>();
+    const nowPadButtons = new Map<number, Set<number>>();
+    let stickX = 0;
+
+    Array.from(navigator.getGamepads()).forEach((pad, padIndex) => {
+      if (!pad) return;
+      const held = new Set<number>();
+      pad.buttons.forEach((button, index) => {
+        if (button.pressed) held.add(index);
+      });
+      if (Math.abs(pad.axes[0] ?? 0) > Math.abs(stickX)) stickX = pad.axes[0];
+
+      const previous = this.padButtons.get(padIndex) || new Set<number>();
+      held.forEach(button => {
+        nowHeld.add(button);
+        if (previous.has(button)) return;
+        if (this.captureCallback) {
+          const callback = this.captureCallback;
+          this.captureCallback = null;
+          callback({ button });
+          return;
+        }
+        ACTIONS.forEach(action => {
+          if (!this.bindings[action].buttons.includes(button)) return;
+          this.press(action === 'FLAP' && padIndex > 0 ? 'FLAP_P2' : action, 'gamepad');
+        });
+      });
+      nowPadButtons.set(padIndex, held);
+    });
+
+    // Pushing the stick past the deadzone counts as a press, for menu navigation
+    if (stickX < -STICK_DEADZONE && this.stickX >= -STICK_DEADZONE) this.press('LEFT', 'gamepad');
+    if (stickX > STICK_DEADZONE && this.stickX <= STICK_DEADZONE) this.press('RIGHT', 'gamepad');
+
+    this.heldButtons = nowHeld;
+    this.padButtons = nowPadButtons;
+    this.stickX = stickX;
+  }
+
+  press(action: Action, source: InputSource, key?: string) {
+    this.pendingPresses.add(action);
+    this.listeners.forEach(l => l(action, source, key));
+  }
+
+  handleKeyDown = (e: KeyboardEvent) => {
+    if (this.captureCallback) {
+      e.preventDefault();
+      const callback = this.captureCallback;
+      this.captureCallback = null;
+      callback({ key: e.code });
+      return;
+    }
+    if (isTextEntry(e.target)) return;
+
+    this.heldKeys.add(e.code);
+    if (e.repeat) return;
+    ACTIONS.forEach(action => {
+      if (this.bindings[action].keys.includes(e.code)) this.press(action, 'keyboard', e.code);
+    });
+  };
+
+  handleKeyUp = (e: KeyboardEvent) => {
+    this.heldKeys.delete(e.code);
+  };
+
+  // Keys released while the window is unfocused never send keyup
+  releaseAll = () => {
+    this.heldKeys.clear();
+  };
+}
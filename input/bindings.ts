@@ -0,0 +1,82 @@
+// --- Actions & Bindings ---
+
+export type Action = 'FLAP' | 'FLAP_P2' | 'LEFT' | 'RIGHT' | 'PAUSE' | 'START' | 'MUTE' | 'REWIND';
+
+export const ACTIONS: Action[] = ['FLAP', 'FLAP_P2', 'LEFT', 'RIGHT', 'PAUSE', 'START', 'MUTE', 'REWIND'];
+
+export interface InputBinding {
+  keys: string[]; // KeyboardEvent.code
+  buttons: number[]; // Standard gamepad button index
+}
+
+export type Bindings = Record<Action, InputBinding>;
+
+// Button indices follow the W3C "standard" gamepad mapping
+export const DEFAULT_BINDINGS: Bindings = {
+  FLAP: { keys: ['Space', 'ArrowUp', 'KeyW'], buttons: [0] },
+  // A second gamepad's FLAP buttons also count as FLAP_P2, see InputManager
+  FLAP_P2: { keys: ['ShiftRight', 'Numpad0'], buttons: [] },
+  LEFT: { keys: ['ArrowLeft', 'KeyA'], buttons: [14] },
+  RIGHT: { keys: ['ArrowRight', 'KeyD'], buttons: [15] },
+  PAUSE: { keys: ['KeyP', 'Escape'], buttons: [9] },
+  START: { keys: ['Enter'], buttons: [9] },
+  MUTE: { keys: ['KeyM'], buttons: [] },
+  // Only does anything in rewind practice
+  REWIND: { keys: ['KeyR'], buttons: [4] },
+};
+
+const BUTTON_NAMES: Record<number, string> = {
+  0: 'A', 1: 'B', 2: 'X', 3: 'Y', 4: 'LB', 5: 'RB', 6: 'LT', 7: 'RT',
+  8: 'Back', 9: 'Start', 10: 'L3', 11: 'R3', 12: 'D↑', 13: 'D↓', 14: 'D←', 15: 'D→'
+};
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→', Escape: 'Esc'
+};
+
+// `names` are the locale's words for keys like Space
+export function keyLabel(code: string, names: Record<string, string> = {}): string {
+  if (names[code]) return names[code];
+  if (KEY_NAMES[code]) return KEY_NAMES[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  return code;
+}
+
+export function buttonLabel(button: number): string {
+  return `🎮 ${BUTTON_NAMES[button] ?? button}`;
+}
+
+// START only acts on the menus and the rest only in-game, so a key or button may
+// be shared across the two groups but never within one. MUTE works everywhere.
+const isMenuAction = (action: Action) => action === 'START';
+const conflicts = (a: Action, b: Action) =>
+  a !== b && (a === 'MUTE' || b === 'MUTE' || isMenuAction(a) === isMenuAction(b));
+
+export function bindKey(bindings: Bindings, action: Action, code: string): Bindings {
+  const next = { ...bindings };
+  ACTIONS.forEach(a => {
+    if (conflicts(a, action)) next[a] = { ...next[a], keys: next[a].keys.filter(k => k !== code) };
+  });
+  if (!next[action].keys.includes(code)) next[action] = { ...next[action], keys: [...next[action].keys, code] };
+  return next;
+}
+
+export function bindButton(bindings: Bindings, action: Action, button: number): Bindings {
+  const next = { ...bindings };
+  ACTIONS.forEach(a => {
+    if (conflicts(a, action)) next[a] = { ...next[a], buttons: next[a].buttons.filter(b => b !== button) };
+  });
+  if (!next[action].buttons.includes(button)) next[action] = { ...next[action], buttons: [...next[action].buttons, button] };
+  return next;
+}
+
+export function unbind(bindings: Bindings, action: Action, binding: { key?: string; button?: number }): Bindings {
+  return {
+    ...bindings,
+    [action]: {
+      keys: bindings[action].keys.filter(k => k !== binding.key),
+      buttons: bindings[action].buttons.filter(b => b !== binding.button)
+    }
+  };
+}
@@ -0,0 +1,85 @@
+import { Difficulty } from '../game/constants';
+import { ScoreMode } from '../storage/highScores';
+
+// --- Remote Leaderboard Client ---
+
+export type LeaderboardPeriod = 'ALL' | 'WEEK';
+
+export interface LeaderboardSubmission {
+  name: string;
+  difficulty: Difficulty;
+  score: number;
+  backwardBirthdays: number;
+  mode: ScoreMode;
+  date: string; // ISO date of the run
+}
+
+export interface LeaderboardEntry {
+  name: string;
+  score: number;
+  backwardBirthdays: number;
+  mode: ScoreMode;
+  date: string;
+}
+
+// Anything that can store and rank scores; the HTTP client is the only one so far
+export interface LeaderboardClient {
+  submit(submission: LeaderboardSubmission): Promise<void>;
+  fetchTop(difficulty: Difficulty, period: LeaderboardPeriod, limit: number): Promise<LeaderboardEntry[]>;
+}
+
+const REQUEST_TIMEOUT_MS = 4000;
+
+// A response the server did send, but not with a 2xx status
+export class LeaderboardRequestError extends Error {
+  status: number;
+
+  constructor(status: number) {
+    super(`Leaderboard request failed: ${status}`);
+    this.status = status;
+  }
+
+  // The server refused this request as such; sending it again won't help.
+  // 408 and 429 only mean "not now", like a 5xx.
+  get permanent() {
+    return this.status >= 400 && this.status < 500 && this.status !== 408 && this.status !== 429;
+  }
+}
+
+// Talks to server/leaderboard-server.mjs (or anything with the same two endpoints)
+export class HttpLeaderboardClient implements LeaderboardClient {
+  baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  submit(submission: LeaderboardSubmission): Promise<void> {
+    return this.request('/scores', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(submission)
+    }).then(() => undefined);
+  }
+
+  fetchTop(difficulty: Difficulty, period: LeaderboardPeriod, limit: number): Promise<LeaderboardEntry[]> {
+    const query = new URLSearchParams({ difficulty, period: period.toLowerCase(), limit: String(limit) });
+    return this.request(`/scores?${query}`).then(res => res.json()).then((data: any) => {
+      if (!Array.isArray(data?.scores)) throw new Error('Malformed leaderboard response');
+      return data.scores;
+    });
+  }
+
+  // Rejects with a LeaderboardRequestError on non-2xx responses, and with
+  // whatever fetch threw on network errors and timeouts
+  request(path: string, init: RequestInit = {}): Promise<Response> {
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    return fetch(`${this.baseUrl}${path}`, { ...init, signal: controller.signal })
+      .then(res => {
+        if (!res.ok) throw new LeaderboardRequestError(res.status);
+        return res;
+      })
+      .finally(() => clearTimeout(timer));
+  }
+}
@@ -0,0 +1,86 @@
+import { Difficulty } from '../game/constants';
+import { isCustomDifficulty } from '../game/difficulty';
+import { HighScoreEntry } from '../storage/highScores';
+import { loadSubmissionQueue, saveSubmissionQueue } from '../storage/leaderboard';
+import { LeaderboardClient, LeaderboardEntry, LeaderboardPeriod, LeaderboardRequestError, LeaderboardSubmission } from './client';
+
+// --- Leaderboard Service ---
+// Sits between the game and a LeaderboardClient. Submissions are queued in
+// localStorage first and sent in order whenever the server answers, so scores
+// from a run without network arrive later. Reads fall back to the local top 5.
+// Custom difficulty presets only exist on this device and never leave it.
+
+export const LEADERBOARD_SIZE = 10;
+
+export interface LeaderboardResult {
+  source: 'REMOTE' | 'LOCAL';
+  entries: LeaderboardEntry[];
+}
+
+export class LeaderboardService {
+  client: LeaderboardClient | null;
+  queue: LeaderboardSubmission[] = loadSubmissionQueue();
+  flushing: Promise<void> | null = null;
+
+  constructor(client: LeaderboardClient | null) {
+    this.client = client;
+  }
+
+  setClient(client: LeaderboardClient | null) {
+    this.client = client;
+    this.flush();
+  }
+
+  get pendingCount() {
+    return this.queue.length;
+  }
+
+  submit(submission: LeaderboardSubmission): Promise<void> {
+    if (isCustomDifficulty(submission.difficulty)) return Promise.resolve();
+    this.queue.push(submission);
+    saveSubmissionQueue(this.queue);
+    return this.flush();
+  }
+
+  // Sends queued submissions oldest first. A submission the server rejects
+  // is dropped; a network error, timeout or server error stops the flush and
+  // leaves the rest queued for the next try.
+  flush(): Promise<void> {
+    if (this.flushing) return this.flushing;
+    const client = this.client;
+    if (!client || this.queue.length === 0) return Promise.resolve();
+
+    const done = () => {
+      this.queue.shift();
+      saveSubmissionQueue(this.queue);
+      return sendNext();
+    };
+    const sendNext = (): Promise<void> => {
+      const next = this.queue[0];
+      if (!next) return Promise.resolve();
+      return client.submit(next).then(done, (e: unknown) => {
+        if (e instanceof LeaderboardRequestError && e.permanent) return done();
+        throw e;
+      });
+    };
+
+    this.flushing = sendNext()
+      .catch(() => {})
+      .finally(() => {
+        this.flushing = null;
+      });
+    return this.flushing;
+  }
+
+  fetchTop(difficulty: Difficulty, period: LeaderboardPeriod, localTop: HighScoreEntry[]): Promise<LeaderboardResult> {
+    const local = (): LeaderboardResult => ({
+      source: 'LOCAL',
+      entries: localTop.map(e => ({ ...e, date: e.date || '' }))
+    });
+    if (!this.client || isCustomDifficulty(difficulty)) return Promise.resolve(local());
+
+    return this.client.fetchTop(difficulty, period, LEADERBOARD_SIZE)
+      .then((entries): LeaderboardResult => ({ source: 'REMOTE', entries }))
+      .catch(local);
+  }
+}
@@ -0,0 +1,68 @@
+// --- Flappy Nichlas bot batch ---
+// Lets the autopilot fly a batch of seeds per difficulty and reports how far
+// it gets, to check that new settings are survivable:
+//
+//   npm run bot -- [--runs 20] [--seconds 120] [--difficulty EASY,MEDIUM,HARD] [--settings custom.json]
+//
+// --settings takes a JSON file with one set of difficulty settings (speed,
+// gap, gravity, jump, pipeInterval, ...) and runs it as CUSTOM instead of the
+// presets. The game code is TypeScript, so it is loaded through Vite.
+
+import fs from 'node:fs';
+import { createServer } from 'vite';
+
+const args = process.argv.slice(2);
+const argValue = (flag, fallback) => {
+  const index = args.indexOf(flag);
+  return index === -1 ? fallback : args[index + 1];
+};
+
+const RUNS = Number(argValue('--runs', 20));
+const SECONDS = Number(argValue('--seconds', 120));
+const SETTINGS_FILE = argValue('--settings', null);
+
+// No browser is involved, so there is nothing to pre-bundle
+const vite = await createServer({
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false },
+  optimizeDeps: { noDiscovery: true, include: [] }
+});
+try {
+  const { runBotBatch } = await vite.ssrLoadModule('/game/botBatch.ts');
+  const { DIFFICULTIES } = await vite.ssrLoadModule('/game/constants.ts');
+  const { sanitizeSettings } = await vite.ssrLoadModule('/game/difficulty.ts');
+
+  let batches;
+  if (SETTINGS_FILE) {
+    const settings = sanitizeSettings(JSON.parse(fs.readFileSync(SETTINGS_FILE, 'utf8')));
+    if (!settings) {
+      console.error(`${SETTINGS_FILE} does not hold valid difficulty settings`);
+      process.exitCode = 1;
+    }
+    batches = settings ? [['CUSTOM:' + SETTINGS_FILE, settings]] : [];
+  } else {
+    const names = String(argValue('--difficulty', Object.keys(DIFFICULTIES).join(','))).split(',');
+    const unknown = names.filter(name => !DIFFICULTIES[name]);
+    if (unknown.length > 0) {
+      console.error(`Unknown difficulty: ${unknown.join(', ')}`);
+      process.exitCode = 1;
+    }
+    batches = names.filter(name => DIFFICULTIES[name]).map(name => [name, DIFFICULTIES[name]]);
+  }
+
+  console.log(`${RUNS} runs of at most ${SECONDS} s each`);
+  for (const [difficulty, settings] of batches) {
+    const report = runBotBatch(difficulty, settings, RUNS, SECONDS);
+    const crashes = report.runs.filter(run => !run.survived);
+    console.log(
+      `${difficulty.padEnd(12)} score min ${report.minScore} / median ${report.medianScore} / max ${report.maxScore}` +
+      ` · ${report.meanSeconds.toFixed(1)} s on average · ${Math.round(report.survivalRate * 100)}% survived`
+    );
+    if (crashes.length > 0) {
+      console.log(`${''.padEnd(12)} crashed on seeds ${crashes.map(run => `${run.seed} (${run.score})`).join(', ')}`);
+    }
+  }
+} finally {
+  await vite.close();
+}
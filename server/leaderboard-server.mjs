@@ -0,0 +1,140 @@
+// --- Flappy Nichlas reference leaderboard server ---
+// Zero-dependency Node server for the party LAN:
+//
+//   node server/leaderboard-server.mjs [--port 8787] [--file scores.json]
+//
+// Without --file scores live in memory only. Endpoints:
+//   GET  /scores?difficulty=EASY&period=all|week&limit=10
+//   POST /scores  { name, difficulty, score, backwardBirthdays, mode, date }
+
+import http from 'node:http';
+import fs from 'node:fs';
+
+const args = process.argv.slice(2);
+const argValue = (flag, fallback) => {
+  const index = args.indexOf(flag);
+  return index === -1 ? fallback : args[index + 1];
+};
+
+const PORT = Number(argValue('--port', process.env.PORT || 8787));
+const FILE = argValue('--file', process.env.LEADERBOARD_FILE || null);
+const DIFFICULTIES = ['EASY', 'MEDIUM', 'HARD'];
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_BODY_BYTES = 10_000;
+
+let scores = [];
+if (FILE && fs.existsSync(FILE)) {
+  try {
+    scores = JSON.parse(fs.readFileSync(FILE, 'utf8'));
+  } catch (e) {
+    console.error(`Could not read ${FILE}, starting empty:`, e.message);
+  }
+  if (!Array.isArray(scores)) {
+    console.error(`${FILE} does not hold a list of scores, starting empty`);
+    scores = [];
+  }
+}
+
+const persist = (list) => {
+  if (FILE) fs.writeFileSync(FILE, JSON.stringify(list));
+};
+
+const validate = (body) => {
+  if (!body || typeof body !== 'object') return null;
+  const { name, difficulty, score, backwardBirthdays, mode, date } = body;
+  if (typeof name !== 'string' || !name.trim()) return null;
+  if (!DIFFICULTIES.includes(difficulty)) return null;
+  if (!Number.isInteger(score) || score < 0) return null;
+  if (Number.isNaN(Date.parse(date))) return null;
+  return {
+    name: name.trim().slice(0, 16),
+    difficulty,
+    score,
+    backwardBirthdays: Number.isInteger(backwardBirthdays) ? backwardBirthdays : 0,
+    mode: typeof mode === 'string' ? mode.slice(0, 16) : 'CLASSIC',
+    date: new Date(date).toISOString(),
+  };
+};
+
+const send = (res, status, data) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(data === undefined ? '' : JSON.stringify(data));
+};
+
+const handle = (req, res) => {
+  // The Host header is up to the client, so only the path is trusted
+  const url = new URL(req.url, 'http://localhost');
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  if (url.pathname === '/scores' && req.method === 'GET') {
+    const difficulty = url.searchParams.get('difficulty');
+    const period = url.searchParams.get('period') || 'all';
+    const limit = Math.max(1, Math.min(Math.floor(Number(url.searchParams.get('limit'))) || 10, 100));
+    if (!DIFFICULTIES.includes(difficulty)) return send(res, 400, { error: 'Unknown difficulty' });
+
+    const since = period === 'week' ? Date.now() - WEEK_MS : 0;
+    const top = scores
+      .filter(s => s.difficulty === difficulty && Date.parse(s.date) >= since)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ difficulty: _, ...entry }) => entry);
+    return send(res, 200, { scores: top });
+  }
+
+  if (url.pathname === '/scores' && req.method === 'POST') {
+    let raw = '';
+    let tooLarge = false;
+    req.on('data', chunk => {
+      if (tooLarge) return;
+      raw += chunk;
+      if (raw.length > MAX_BODY_BYTES) {
+        // Answered right away; the rest of the body is drained unread
+        tooLarge = true;
+        raw = '';
+        send(res, 413, { error: 'Score too large' });
+      }
+    });
+    req.on('end', () => {
+      if (tooLarge) return;
+      let entry = null;
+      try {
+        entry = validate(JSON.parse(raw));
+      } catch (e) {}
+      if (!entry) return send(res, 400, { error: 'Invalid score' });
+      // Kept only once it is saved, so a retry after a 500 doesn't count twice
+      try {
+        persist([...scores, entry]);
+      } catch (e) {
+        console.error(`Could not save to ${FILE}:`, e.message);
+        return send(res, 500, { error: 'Could not save score' });
+      }
+      scores.push(entry);
+      send(res, 201, { ok: true });
+    });
+    return;
+  }
+
+  send(res, 404, { error: 'Not found' });
+};
+
+const server = http.createServer((req, res) => {
+  try {
+    handle(req, res);
+  } catch (e) {
+    // A malformed request is the client's fault, anything else is ours
+    if (res.headersSent) return res.end();
+    if (e instanceof TypeError && e.code === 'ERR_INVALID_URL') return send(res, 400, { error: 'Bad request' });
+    console.error('Request failed:', e);
+    send(res, 500, { error: 'Internal error' });
+  }
+});
+
+server.listen(PORT, '0.0.0.0', () => {
+  console.log(`Leaderboard listening on http://0.0.0.0:${PORT}${FILE ? ` (saving to ${FILE})` : ' (in memory)'}`);
+});
@@ -0,0 +1,30 @@
+import { AchievementId, isAchievementId } from '../game/achievements';
+import { readJson, writeJson } from './local';
+
+const ACHIEVEMENTS_KEY = 'flappy_nichlas_achievements';
+
+// Unlock date (ISO) per achievement
+export type UnlockedAchievements = Partial<Record<AchievementId, string>>;
+
+export function loadAchievements(): UnlockedAchievements {
+  const saved = readJson<any>(ACHIEVEMENTS_KEY, null);
+  const unlocked: UnlockedAchievements = {};
+  if (!saved || typeof saved !== 'object') return unlocked;
+
+  // Achievements that no longer exist are dropped
+  Object.keys(saved).filter(isAchievementId).forEach(id => {
+    if (typeof saved[id] === 'string') unlocked[id] = saved[id];
+  });
+  return unlocked;
+}
+
+// Keeps the first unlock date of anything already unlocked
+export function unlockAchievements(ids: AchievementId[]): UnlockedAchievements {
+  const date = new Date().toISOString();
+  const unlocked = loadAchievements();
+  ids.forEach(id => {
+    if (!unlocked[id]) unlocked[id] = date;
+  });
+  writeJson(ACHIEVEMENTS_KEY, unlocked);
+  return unlocked;
+}
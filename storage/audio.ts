@@ -0,0 +1,31 @@
+import { readJson, writeJson } from './local';
+
+const AUDIO_KEY = 'flappy_nichlas_audio';
+
+// Volumes run from 0 to 1; the mixer squares them so the sliders feel even
+export interface AudioSettings {
+  master: number;
+  music: number;
+  sfx: number;
+  muted: boolean;
+}
+
+export const DEFAULT_AUDIO: AudioSettings = { master: 0.8, music: 0.7, sfx: 1, muted: false };
+
+const volume = (value: unknown, fallback: number) =>
+  typeof value === 'number' && isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+
+export function loadAudioSettings(): AudioSettings {
+  const saved = readJson<any>(AUDIO_KEY, null);
+  if (!saved || typeof saved !== 'object') return { ...DEFAULT_AUDIO };
+  return {
+    master: volume(saved.master, DEFAULT_AUDIO.master),
+    music: volume(saved.music, DEFAULT_AUDIO.music),
+    sfx: volume(saved.sfx, DEFAULT_AUDIO.sfx),
+    muted: saved.muted === true
+  };
+}
+
+export function saveAudioSettings(settings: AudioSettings) {
+  writeJson(AUDIO_KEY, settings);
+}
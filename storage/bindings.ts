@@ -0,0 +1,27 @@
+import { ACTIONS, Bindings, DEFAULT_BINDINGS } from '../input/bindings';
+import { readJson, writeJson } from './local';
+
+const BINDINGS_KEY = 'flappy_nichlas_bindings';
+
+// Anything malformed falls back to the default binding for that action
+export function loadBindings(): Bindings {
+  const saved = readJson<any>(BINDINGS_KEY, null);
+  const bindings = { ...DEFAULT_BINDINGS };
+  if (!saved) return bindings;
+
+  ACTIONS.forEach(action => {
+    const entry = saved[action];
+    if (
+      entry &&
+      Array.isArray(entry.keys) && entry.keys.every((k: unknown) => typeof k === 'string') &&
+      Array.isArray(entry.buttons) && entry.buttons.every((b: unknown) => typeof b === 'number')
+    ) {
+      bindings[action] = { keys: entry.keys, buttons: entry.buttons };
+    }
+  });
+  return bindings;
+}
+
+export function saveBindings(bindings: Bindings) {
+  writeJson(BINDINGS_KEY, bindings);
+}
@@ -0,0 +1,57 @@
+import { previousDay } from '../game/daily';
+import { HighScoreEntry, isHighScoreEntry, sortAndTrim } from './highScores';
+import { readJson, writeJson } from './local';
+
+// --- Daily Challenge Storage ---
+// Only the one scored attempt per day is kept: it goes on the daily best list
+// (entries use the normal high score shape with mode 'DAILY') and counts
+// towards the streak. Practice runs are never stored.
+
+const DAILY_KEY = 'flappy_nichlas_daily';
+
+export interface DailyState {
+  lastPlayed: string | null; // Day of the latest scored attempt
+  lastScore: number | null; // null while the attempt is running, or if it was abandoned
+  streak: number; // Consecutive days with a scored attempt, up to lastPlayed
+  best: HighScoreEntry[];
+}
+
+const emptyDaily = (): DailyState => ({ lastPlayed: null, lastScore: null, streak: 0, best: [] });
+
+export function loadDaily(): DailyState {
+  const saved = readJson<any>(DAILY_KEY, null);
+  if (!saved || typeof saved !== 'object') return emptyDaily();
+  return {
+    lastPlayed: typeof saved.lastPlayed === 'string' ? saved.lastPlayed : null,
+    lastScore: typeof saved.lastScore === 'number' ? saved.lastScore : null,
+    streak: typeof saved.streak === 'number' && saved.streak > 0 ? Math.floor(saved.streak) : 0,
+    best: Array.isArray(saved.best) ? sortAndTrim(saved.best.filter(isHighScoreEntry)) : []
+  };
+}
+
+export function hasPlayedDaily(daily: DailyState, day: string): boolean {
+  return daily.lastPlayed === day;
+}
+
+// The stored streak is broken once a whole day has been skipped
+export function currentStreak(daily: DailyState, day: string): number {
+  return daily.lastPlayed === day || daily.lastPlayed === previousDay(day) ? daily.streak : 0;
+}
+
+// Uses up the day's attempt as soon as it starts, so quitting a bad run doesn't give another go
+export function beginDailyAttempt(day: string): DailyState {
+  const daily = loadDaily();
+  if (hasPlayedDaily(daily, day)) return daily;
+  const updated: DailyState = { ...daily, lastPlayed: day, lastScore: null, streak: currentStreak(daily, day) + 1 };
+  writeJson(DAILY_KEY, updated);
+  return updated;
+}
+
+// Only the result of the attempt begun today counts
+export function recordDailyResult(day: string, entry: HighScoreEntry): DailyState {
+  const daily = loadDaily();
+  if (daily.lastPlayed !== day || daily.lastScore !== null) return daily;
+  const updated: DailyState = { ...daily, lastScore: entry.score, best: sortAndTrim([...daily.best, entry]) };
+  writeJson(DAILY_KEY, updated);
+  return updated;
+}
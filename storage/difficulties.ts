@@ -0,0 +1,35 @@
+import { DifficultySettings } from '../game/constants';
+import { CustomPresets, MAX_PRESET_NAME_LENGTH, sanitizeSettings } from '../game/difficulty';
+import { readJson, writeJson } from './local';
+
+const PRESETS_KEY = 'flappy_nichlas_custom_difficulties';
+
+export function loadCustomPresets(): CustomPresets {
+  const saved = readJson<any>(PRESETS_KEY, null);
+  const presets: CustomPresets = {};
+  if (!saved || typeof saved !== 'object') return presets;
+
+  Object.keys(saved).forEach(name => {
+    const settings = sanitizeSettings(saved[name]);
+    if (name && settings) presets[name] = settings;
+  });
+  return presets;
+}
+
+export function cleanPresetName(name: string): string {
+  return name.trim().slice(0, MAX_PRESET_NAME_LENGTH);
+}
+
+// Saving under an existing name replaces that preset
+export function saveCustomPreset(name: string, settings: DifficultySettings): CustomPresets {
+  const presets = { ...loadCustomPresets(), [cleanPresetName(name)]: settings };
+  writeJson(PRESETS_KEY, presets);
+  return presets;
+}
+
+export function deleteCustomPreset(name: string): CustomPresets {
+  const presets = loadCustomPresets();
+  delete presets[name];
+  writeJson(PRESETS_KEY, presets);
+  return presets;
+}
@@ -0,0 +1,15 @@
+// --- File import/export helpers ---
+
+export function downloadJson(filename: string, data: unknown) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function readJsonFile(file: File): Promise<unknown> {
+  return file.text().then(text => JSON.parse(text));
+}
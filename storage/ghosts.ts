@@ -0,0 +1,85 @@
+import { CustomDifficulty, Difficulty, PresetDifficulty } from '../game/constants';
+import { difficultyLabel, isDifficulty } from '../game/difficulty';
+import { RunRecording, sanitizeRecording } from '../game/replay';
+import { readJson, writeJson } from './local';
+import { downloadJson, readJsonFile } from './files';
+
+// --- Ghost Storage ---
+// Per difficulty we keep your own best run and optionally a rival ghost imported from a friend.
+
+const GHOSTS_KEY = 'flappy_nichlas_ghosts';
+const GHOST_FILE_KIND = 'flappy-nichlas-ghost';
+
+export type GhostSource = 'BEST' | 'RIVAL';
+
+export interface GhostSlots {
+  best: RunRecording | null;
+  rival: RunRecording | null;
+}
+
+export type GhostStore = Record<PresetDifficulty, GhostSlots> & Partial<Record<CustomDifficulty, GhostSlots>>;
+
+export const EMPTY_GHOST_SLOTS: GhostSlots = { best: null, rival: null };
+
+export function ghostSlots(store: GhostStore, difficulty: Difficulty): GhostSlots {
+  return store[difficulty] || EMPTY_GHOST_SLOTS;
+}
+
+const emptyStore = (): GhostStore => ({
+  EASY: { best: null, rival: null },
+  MEDIUM: { best: null, rival: null },
+  HARD: { best: null, rival: null }
+});
+
+export function loadGhosts(): GhostStore {
+  const saved = readJson<any>(GHOSTS_KEY, null);
+  const store = emptyStore();
+  if (!saved) return store;
+
+  Object.keys(saved).filter(isDifficulty).forEach(d => {
+    const slots = saved[d] || {};
+    store[d] = {
+      best: sanitizeRecording(slots.best),
+      rival: sanitizeRecording(slots.rival)
+    };
+  });
+  return store;
+}
+
+const updateSlot = (difficulty: Difficulty, source: GhostSource, recording: RunRecording | null): GhostStore => {
+  const store = loadGhosts();
+  store[difficulty] = {
+    ...ghostSlots(store, difficulty),
+    [source === 'BEST' ? 'best' : 'rival']: recording
+  };
+  writeJson(GHOSTS_KEY, store);
+  return store;
+};
+
+export function saveBestGhost(recording: RunRecording): GhostStore {
+  return updateSlot(recording.difficulty, 'BEST', recording);
+}
+
+export function saveRivalGhost(recording: RunRecording): GhostStore {
+  return updateSlot(recording.difficulty, 'RIVAL', recording);
+}
+
+export function clearRivalGhost(difficulty: Difficulty): GhostStore {
+  return updateSlot(difficulty, 'RIVAL', null);
+}
+
+export function exportGhostFile(recording: RunRecording) {
+  downloadJson(
+    `nichlas-ghost-${difficultyLabel(recording.difficulty).toLowerCase()}-${recording.score}.json`,
+    { kind: GHOST_FILE_KIND, recording }
+  );
+}
+
+// Rejects if the file isn't a ghost exported by this game
+export function readGhostFile(file: File): Promise<RunRecording> {
+  return readJsonFile(file).then((data: any) => {
+    const recording = data && data.kind === GHOST_FILE_KIND ? sanitizeRecording(data.recording) : null;
+    if (!recording) throw new Error('Not a Flappy Nichlas ghost file');
+    return recording;
+  });
+}
@@ -0,0 +1,152 @@
+import { CustomDifficulty, Difficulty, PresetDifficulty } from '../game/constants';
+import { PRESET_DIFFICULTIES, isDifficulty } from '../game/difficulty';
+import { readJson, writeJson } from './local';
+import { downloadJson, readJsonFile } from './files';
+
+// --- High Score Tables ---
+// Stored as a versioned envelope under the original key. Version 1 (never
+// labelled) was bare arrays of numbers per difficulty: { EASY: [12, 8], ... }.
+// Custom presets get their table the first time a score is set on them.
+
+const HIGH_SCORES_KEY = 'flappy_nichlas_top5';
+const PLAYER_NAME_KEY = 'flappy_nichlas_player_name';
+const HIGH_SCORE_FILE_KIND = 'flappy-nichlas-highscores';
+export const HIGH_SCORE_VERSION = 2;
+export const TOP_LIST_SIZE = 5;
+const MAX_NAME_LENGTH = 16;
+
+export type ScoreMode = 'CLASSIC' | 'GHOST' | 'TOURNAMENT' | 'DAILY';
+
+export interface HighScoreEntry {
+  name: string;
+  date: string | null; // ISO date, null for scores migrated from version 1
+  score: number;
+  backwardBirthdays: number;
+  mode: ScoreMode;
+}
+
+export type HighScoreTables = Record<PresetDifficulty, HighScoreEntry[]> & Partial<Record<CustomDifficulty, HighScoreEntry[]>>;
+
+interface HighScoreEnvelope {
+  version: number;
+  tables: HighScoreTables;
+}
+
+export const emptyHighScores = (): HighScoreTables => ({ EASY: [], MEDIUM: [], HARD: [] });
+
+export const isHighScoreEntry = (value: any): value is HighScoreEntry => (
+  !!value &&
+  typeof value.name === 'string' &&
+  (value.date === null || typeof value.date === 'string') &&
+  typeof value.score === 'number' &&
+  typeof value.backwardBirthdays === 'number' &&
+  typeof value.mode === 'string'
+);
+
+export function topList(tables: HighScoreTables, difficulty: Difficulty): HighScoreEntry[] {
+  return tables[difficulty] || [];
+}
+
+export const sortAndTrim = (entries: HighScoreEntry[]) =>
+  [...entries].sort((a, b) => b.score - a.score).slice(0, TOP_LIST_SIZE);
+
+// Tables written by a newer build can't be read here. They show as empty, but
+// are never replaced, so switching back to that build finds them intact.
+const isFromNewerVersion = (raw: any) => !!raw && typeof raw.version === 'number' && raw.version > HIGH_SCORE_VERSION;
+
+// Accepts any stored or imported shape we have ever written; unknown data yields empty tables.
+// Version 1 scores had no names and are credited to `defaultName`, whose birthday it is.
+export function migrateHighScores(raw: any, defaultName: string): HighScoreTables {
+  const tables = emptyHighScores();
+  if (!raw || typeof raw !== 'object') return tables;
+
+  if (typeof raw.version !== 'number') {
+    // Version 1: { EASY: [numbers] }
+    PRESET_DIFFICULTIES.forEach(d => {
+      if (!Array.isArray(raw[d])) return;
+      tables[d] = sortAndTrim(raw[d]
+        .filter((s: unknown) => typeof s === 'number')
+        .map((score: number) => ({ name: cleanName(defaultName, defaultName), date: null, score, backwardBirthdays: 0, mode: 'CLASSIC' })));
+    });
+    return tables;
+  }
+
+  if (raw.version <= HIGH_SCORE_VERSION && raw.tables) {
+    Object.keys(raw.tables).filter(isDifficulty).forEach(d => {
+      if (Array.isArray(raw.tables[d])) tables[d] = sortAndTrim(raw.tables[d].filter(isHighScoreEntry));
+    });
+  }
+  return tables;
+}
+
+export function loadHighScores(defaultName: string): HighScoreTables {
+  return migrateHighScores(readJson<any>(HIGH_SCORES_KEY, null), defaultName);
+}
+
+export function saveHighScores(tables: HighScoreTables) {
+  if (isFromNewerVersion(readJson<any>(HIGH_SCORES_KEY, null))) return;
+  const envelope: HighScoreEnvelope = { version: HIGH_SCORE_VERSION, tables };
+  writeJson(HIGH_SCORES_KEY, envelope);
+}
+
+export function qualifiesForTopList(tables: HighScoreTables, difficulty: Difficulty, score: number): boolean {
+  const entries = topList(tables, difficulty);
+  return entries.length < TOP_LIST_SIZE || score > entries[entries.length - 1].score;
+}
+
+// Returns the new tables and the entry's position, or -1 if it didn't make the list
+export function insertHighScore(tables: HighScoreTables, difficulty: Difficulty, entry: HighScoreEntry) {
+  const entries = sortAndTrim([...topList(tables, difficulty), entry]);
+  return {
+    tables: { ...tables, [difficulty]: entries },
+    rank: entries.indexOf(entry)
+  };
+}
+
+// Entries are identified by their date, which is unique per run
+export function renameHighScore(tables: HighScoreTables, difficulty: Difficulty, date: string, name: string, defaultName: string): HighScoreTables {
+  return {
+    ...tables,
+    [difficulty]: topList(tables, difficulty).map(e => e.date === date ? { ...e, name: cleanName(name, defaultName) } : e)
+  };
+}
+
+// A blank name falls back to `defaultName`, the birthday person's
+export function cleanName(name: string, defaultName: string): string {
+  return name.trim().slice(0, MAX_NAME_LENGTH) || defaultName.trim().slice(0, MAX_NAME_LENGTH);
+}
+
+export function loadPlayerName(defaultName: string): string {
+  return readJson<string>(PLAYER_NAME_KEY, defaultName);
+}
+
+export function savePlayerName(name: string, defaultName: string) {
+  writeJson(PLAYER_NAME_KEY, cleanName(name, defaultName));
+}
+
+export function exportHighScores(tables: HighScoreTables) {
+  downloadJson('flappy-nichlas-highscores.json', { kind: HIGH_SCORE_FILE_KIND, version: HIGH_SCORE_VERSION, tables });
+}
+
+// Imported scores are merged into the existing tables; the same run never appears twice
+export function importHighScores(file: File, current: HighScoreTables, defaultName: string): Promise<HighScoreTables> {
+  return readJsonFile(file).then((data: any) => {
+    if (!data || data.kind !== HIGH_SCORE_FILE_KIND) {
+      throw new Error('Not a Flappy Nichlas high score file');
+    }
+    if (isFromNewerVersion(data)) throw new Error('High score file from a newer version');
+    const imported = migrateHighScores(data, defaultName);
+    const merged = emptyHighScores();
+    const difficulties = new Set([...Object.keys(current), ...Object.keys(imported)].filter(isDifficulty));
+    difficulties.forEach(d => {
+      const seen = new Set<string>();
+      merged[d] = sortAndTrim([...topList(current, d), ...topList(imported, d)].filter(e => {
+        const id = `${e.name}|${e.date}|${e.score}`;
+        if (seen.has(id)) return false;
+        seen.add(id);
+        return true;
+      }));
+    });
+    return merged;
+  });
+}
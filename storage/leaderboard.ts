@@ -0,0 +1,23 @@
+import { LeaderboardSubmission } from '../leaderboard/client';
+import { readJson, writeJson } from './local';
+
+const QUEUE_KEY = 'flappy_nichlas_leaderboard_queue';
+const SERVER_URL_KEY = 'flappy_nichlas_leaderboard_url';
+
+export function loadSubmissionQueue(): LeaderboardSubmission[] {
+  const saved = readJson<unknown>(QUEUE_KEY, []);
+  return Array.isArray(saved) ? saved : [];
+}
+
+export function saveSubmissionQueue(queue: LeaderboardSubmission[]) {
+  writeJson(QUEUE_KEY, queue);
+}
+
+// An explicitly saved URL wins over the build-time LEADERBOARD_URL
+export function loadServerUrl(): string {
+  return readJson<string>(SERVER_URL_KEY, process.env.LEADERBOARD_URL || '');
+}
+
+export function saveServerUrl(url: string) {
+  writeJson(SERVER_URL_KEY, url.trim());
+}
@@ -0,0 +1,32 @@
+import { LEVEL_FILE_KIND, Level, createLevel, isLevel } from '../game/level';
+import { readJson, writeJson } from './local';
+import { downloadJson, readJsonFile } from './files';
+
+// --- Level Storage ---
+// The editor's level is kept between visits; finished levels travel as files.
+
+const LEVEL_DRAFT_KEY = 'flappy_nichlas_level_draft';
+
+export function loadLevelDraft(): Level {
+  const saved = readJson<unknown>(LEVEL_DRAFT_KEY, null);
+  return isLevel(saved) ? saved : createLevel();
+}
+
+export function saveLevelDraft(level: Level) {
+  writeJson(LEVEL_DRAFT_KEY, level);
+}
+
+export function exportLevel(level: Level) {
+  const slug = level.name.toLowerCase().replace(/[^a-z0-9æøå]+/g, '-').replace(/^-|-$/g, '') || 'bane';
+  downloadJson(`nichlas-bane-${slug}.json`, { kind: LEVEL_FILE_KIND, level });
+}
+
+// Rejects if the file isn't a level exported by this game
+export function readLevelFile(file: File): Promise<Level> {
+  return readJsonFile(file).then((data: any) => {
+    if (!data || data.kind !== LEVEL_FILE_KIND || !isLevel(data.level)) {
+      throw new Error('Not a Flappy Nichlas level file');
+    }
+    return data.level;
+  });
+}
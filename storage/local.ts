@@ -0,0 +1,24 @@
+// --- localStorage helpers ---
+// Storage can be full, disabled (private mode) or hold garbage from older
+// versions; callers always get their fallback instead of an exception.
+
+export function readJson<T>(key: string, fallback: T): T {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch(e) {
+    return fallback;
+  }
+}
+
+export function writeJson(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch(e) {}
+}
+
+export function removeKey(key: string) {
+  try {
+    localStorage.removeItem(key);
+  } catch(e) {}
+}
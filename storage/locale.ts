@@ -0,0 +1,15 @@
+import { Locale, detectLocale, isLocale } from '../i18n/locale';
+import { readJson, writeJson } from './local';
+
+const LOCALE_KEY = 'flappy_nichlas_locale';
+
+// Until the player picks one, the browser's language decides
+export function loadLocale(): Locale {
+  const saved = readJson<unknown>(LOCALE_KEY, null);
+  if (isLocale(saved)) return saved;
+  return detectLocale(typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : []);
+}
+
+export function saveLocale(locale: Locale) {
+  writeJson(LOCALE_KEY, locale);
+}
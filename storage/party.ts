@@ -0,0 +1,45 @@
+import { DEFAULT_PARTY, PartyConfig, sanitizeParty } from '../game/party';
+import { readJson, writeJson } from './local';
+
+const PARTY_KEY = 'flappy_nichlas_party';
+
+// Link parameters; a hash like #name=Ida&friend=Sofie&flag=SWEDEN&body=FF69B4&cheer=Hurra!&cheer=Kom+så!
+const PARAMS = { name: 'name', friend: 'friend', flag: 'flag', body: 'body', cheer: 'cheer' };
+
+export function loadParty(): PartyConfig {
+  return sanitizeParty(readJson<unknown>(PARTY_KEY, DEFAULT_PARTY));
+}
+
+export function saveParty(party: PartyConfig) {
+  writeJson(PARTY_KEY, party);
+}
+
+// The party in a link's hash or query, or null when it has none of ours
+export function partyFromLink(hash: string, search = ''): PartyConfig | null {
+  for (const part of [hash, search]) {
+    const params = new URLSearchParams(part.replace(/^[#?]/, ''));
+    if (!Object.values(PARAMS).some(key => params.has(key))) continue;
+    return sanitizeParty({
+      name: params.get(PARAMS.name),
+      friend: params.get(PARAMS.friend),
+      flag: params.get(PARAMS.flag),
+      body: params.get(PARAMS.body),
+      cheers: params.getAll(PARAMS.cheer)
+    });
+  }
+  return null;
+}
+
+// The name always goes in so even a default party replaces the one the
+// receiver has saved; the rest only when it differs, to keep links short
+export function partyLink(party: PartyConfig, base: string): string {
+  const params = new URLSearchParams();
+  params.set(PARAMS.name, party.name);
+  if (party.friend !== DEFAULT_PARTY.friend) params.set(PARAMS.friend, party.friend);
+  if (party.flag !== DEFAULT_PARTY.flag) params.set(PARAMS.flag, party.flag);
+  if (party.body) params.set(PARAMS.body, party.body.slice(1));
+  party.cheers.forEach(cheer => params.append(PARAMS.cheer, cheer));
+  const url = new URL(base);
+  url.hash = params.toString();
+  return url.toString();
+}
@@ -0,0 +1,25 @@
+import { RunRecording, sanitizeRecording } from '../game/replay';
+import { readJson, writeJson } from './local';
+
+const REPLAYS_KEY = 'flappy_nichlas_replays';
+const MAX_SAVED_REPLAYS = 10;
+
+export function loadReplays(): RunRecording[] {
+  const saved = readJson<unknown>(REPLAYS_KEY, []);
+  if (!Array.isArray(saved)) return [];
+  return saved.map(sanitizeRecording).filter((r): r is RunRecording => r !== null);
+}
+
+// Newest first; the oldest replay is dropped once the list is full
+export function saveReplay(recording: RunRecording): RunRecording[] {
+  const replays = [recording, ...loadReplays().filter(r => r.recordedAt !== recording.recordedAt)]
+    .slice(0, MAX_SAVED_REPLAYS);
+  writeJson(REPLAYS_KEY, replays);
+  return replays;
+}
+
+export function deleteReplay(recordedAt: string): RunRecording[] {
+  const replays = loadReplays().filter(r => r.recordedAt !== recordedAt);
+  writeJson(REPLAYS_KEY, replays);
+  return replays;
+}
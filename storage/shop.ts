@@ -0,0 +1,86 @@
+import { BIRD_SKINS, DEFAULT_PIPE_THEME, DEFAULT_SKIN, PIPE_THEMES } from '../game/skins';
+import { readJson, writeJson } from './local';
+
+// --- Wallet & Shop ---
+// Coins, bought cosmetics and what is equipped, as one versioned envelope.
+// Whatever is stored is checked against the current catalogue on load, so a
+// skin that has been removed or renamed simply disappears instead of breaking
+// the shop, and the free defaults are always owned.
+
+const SHOP_KEY = 'flappy_nichlas_shop';
+export const SHOP_VERSION = 1;
+
+export interface ShopState {
+  coins: number;
+  ownedSkins: string[];
+  ownedPipeThemes: string[];
+  skin: string;
+  pipeTheme: string;
+}
+
+interface ShopEnvelope extends ShopState {
+  version: number;
+}
+
+export type ShopCategory = 'SKIN' | 'PIPES';
+
+const catalogue = (category: ShopCategory) => category === 'SKIN' ? BIRD_SKINS : PIPE_THEMES;
+
+const ownedIds = (saved: unknown, category: ShopCategory): string[] => {
+  const ids = Array.isArray(saved) ? saved : [];
+  // Free items are owned from the start
+  return catalogue(category)
+    .filter(item => item.price === 0 || ids.includes(item.id))
+    .map(item => item.id);
+};
+
+export function migrateShop(raw: any): ShopState {
+  const data = raw && typeof raw === 'object' && (typeof raw.version !== 'number' || raw.version <= SHOP_VERSION) ? raw : {};
+  const coins = typeof data.coins === 'number' && data.coins > 0 ? Math.floor(data.coins) : 0;
+  const ownedSkins = ownedIds(data.ownedSkins, 'SKIN');
+  const ownedPipeThemes = ownedIds(data.ownedPipeThemes, 'PIPES');
+  return {
+    coins,
+    ownedSkins,
+    ownedPipeThemes,
+    skin: ownedSkins.includes(data.skin) ? data.skin : DEFAULT_SKIN,
+    pipeTheme: ownedPipeThemes.includes(data.pipeTheme) ? data.pipeTheme : DEFAULT_PIPE_THEME
+  };
+}
+
+export function loadShop(): ShopState {
+  return migrateShop(readJson<any>(SHOP_KEY, null));
+}
+
+const saveShop = (shop: ShopState): ShopState => {
+  const envelope: ShopEnvelope = { version: SHOP_VERSION, ...shop };
+  writeJson(SHOP_KEY, envelope);
+  return shop;
+};
+
+export function addCoins(amount: number): ShopState {
+  const shop = loadShop();
+  return saveShop({ ...shop, coins: shop.coins + Math.max(0, Math.floor(amount)) });
+}
+
+export function isOwned(shop: ShopState, category: ShopCategory, id: string): boolean {
+  return (category === 'SKIN' ? shop.ownedSkins : shop.ownedPipeThemes).includes(id);
+}
+
+// Buys and equips in one go; unknown items, items already owned and items you can't afford change nothing
+export function buyItem(category: ShopCategory, id: string): ShopState {
+  const shop = loadShop();
+  const item = catalogue(category).find(i => i.id === id);
+  if (!item || isOwned(shop, category, id) || shop.coins < item.price) return shop;
+
+  const coins = shop.coins - item.price;
+  return saveShop(category === 'SKIN'
+    ? { ...shop, coins, ownedSkins: [...shop.ownedSkins, id], skin: id }
+    : { ...shop, coins, ownedPipeThemes: [...shop.ownedPipeThemes, id], pipeTheme: id });
+}
+
+export function equipItem(category: ShopCategory, id: string): ShopState {
+  const shop = loadShop();
+  if (!isOwned(shop, category, id)) return shop;
+  return saveShop(category === 'SKIN' ? { ...shop, skin: id } : { ...shop, pipeTheme: id });
+}
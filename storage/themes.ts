@@ -0,0 +1,22 @@
+import { DEFAULT_THEME, ThemeId, isThemeId } from '../themes/themes';
+import { readJson, writeJson } from './local';
+
+const THEME_KEY = 'flappy_nichlas_theme';
+
+export interface ThemeSettings {
+  unlocked: boolean; // The cake secret has been found, so the picker is shown
+  theme: ThemeId;
+}
+
+export function loadThemeSettings(): ThemeSettings {
+  const saved = readJson<any>(THEME_KEY, null);
+  const unlocked = !!saved && saved.unlocked === true;
+  return {
+    unlocked,
+    theme: unlocked && isThemeId(saved.theme) ? saved.theme : DEFAULT_THEME
+  };
+}
+
+export function saveThemeSettings(settings: ThemeSettings) {
+  writeJson(THEME_KEY, settings);
+}
@@ -0,0 +1,18 @@
+import { Tournament, isTournament } from '../game/tournament';
+import { readJson, removeKey, writeJson } from './local';
+
+const TOURNAMENT_KEY = 'flappy_nichlas_tournament';
+
+// Survives a reload so a party tournament isn't lost to an accidental refresh
+export function loadTournament(): Tournament | null {
+  const saved = readJson<unknown>(TOURNAMENT_KEY, null);
+  return isTournament(saved) ? saved : null;
+}
+
+export function saveTournament(tournament: Tournament | null) {
+  if (tournament) {
+    writeJson(TOURNAMENT_KEY, tournament);
+  } else {
+    removeKey(TOURNAMENT_KEY);
+  }
+}
@@ -0,0 +1,167 @@
+import { CANVAS_HEIGHT, CANVAS_WIDTH, ObstacleType } from '../game/constants';
+
+// --- Theme Renderers ---
+// The canvas code behind each theme. Everything is drawn from the arguments
+// and the clock only, so themes can be swapped in the middle of a frame.
+
+export type PipeColors = [string, string, string]; // Light, mid and dark
+
+export type PipeRenderer = (
+  ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number,
+  isTop: boolean, type: ObstacleType, colors: PipeColors
+) => void;
+
+export type BackgroundRenderer = (ctx: CanvasRenderingContext2D, time: number) => void;
+
+// Moving pipes are purple so they stand out before they start to drift
+const MOVING_COLORS: PipeColors = ['#A569BD', '#D2B4DE', '#6C3483'];
+
+export const drawClassicPipe: PipeRenderer = (ctx, x, y, w, h, isTop, type, colors) => {
+  const [light, mid, dark] = type === 'MOVING' ? MOVING_COLORS : colors;
+  const grad = ctx.createLinearGradient(x, 0, x + w, 0);
+  grad.addColorStop(0, light);
+  grad.addColorStop(0.5, mid);
+  grad.addColorStop(1, dark);
+
+  ctx.fillStyle = grad;
+  ctx.fillRect(x, y, w, h);
+
+  ctx.fillStyle = dark;
+  ctx.strokeStyle = '#000';
+  ctx.lineWidth = 2;
+  const rimY = isTop ? y + h - 24 : y;
+  ctx.fillRect(x - 2, rimY, w + 4, 24);
+  ctx.strokeRect(x - 2, rimY, w + 4, 24);
+
+  ctx.fillStyle = 'rgba(255,255,255,0.2)';
+  ctx.fillRect(x, rimY + 2, 4, 20);
+};
+
+// The classic pipe in moonlight
+export const drawNightPipe: PipeRenderer = (ctx, x, y, w, h, isTop, type, colors) => {
+  drawClassicPipe(ctx, x, y, w, h, isTop, type, colors);
+  ctx.fillStyle = 'rgba(10, 15, 40, 0.45)';
+  ctx.fillRect(x - 2, y, w + 4, h);
+};
+
+const drawStripes = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, colors: string[], size: number) => {
+  const stripes = Math.ceil(h / size);
+  for(let i=0; i<stripes; i++) {
+    ctx.fillStyle = colors[i % colors.length];
+    ctx.fillRect(x, y + i * size, w, Math.min(size, h - i * size));
+  }
+  ctx.strokeStyle = '#000';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(x, y, w, h);
+};
+
+// Layer cake with a candle on the bottom half; double pipes are candy canes
+export const drawCakePipe: PipeRenderer = (ctx, x, y, w, h, isTop, type) => {
+  if (type === 'DOUBLE') {
+    drawStripes(ctx, x, y, w, h, ['#E74C3C', '#FFF'], 12);
+    return;
+  }
+  const layers = Math.ceil(h / 20);
+  for(let i=0; i<layers; i++) {
+    const ly = isTop ? (y + h - 20 - i*20) : (y + i*20);
+    if (ly < y && !isTop) break;
+    if (ly < y && isTop) continue;
+
+    // Moving pipes are chocolate cake
+    const colors = type === 'MOVING' ? ['#5D4037', '#D7CCC8', '#8D6E63'] : ['#8B4513', '#F5DEB3', '#FF69B4'];
+    ctx.fillStyle = colors[i % 3];
+    ctx.fillRect(x, ly, w, 20);
+
+    ctx.fillStyle = '#FFF';
+    ctx.fillRect(x, ly, w, 5);
+  }
+  if (!isTop) {
+    ctx.fillStyle = '#F00';
+    ctx.fillRect(x + 10, y - 10, 4, 10);
+    ctx.fillStyle = '#FF0';
+    ctx.beginPath();
+    ctx.arc(x + 12, y - 12, 3 + Math.random()*2, 0, Math.PI*2);
+    ctx.fill();
+  }
+};
+
+// Candy canes with a cap of snow on the end facing the gap
+export const drawCandyPipe: PipeRenderer = (ctx, x, y, w, h, isTop, type) => {
+  drawStripes(ctx, x, y, w, h, type === 'MOVING' ? ['#27AE60', '#FFF'] : ['#C0392B', '#FFF'], 14);
+  ctx.fillStyle = '#FFF';
+  const capY = isTop ? y + h - 8 : y;
+  ctx.fillRect(x - 3, capY, w + 6, 8);
+  ctx.strokeRect(x - 3, capY, w + 6, 8);
+};
+
+// The classic pipe with a Dannebrog-red rim
+export const drawSummerPipe: PipeRenderer = (ctx, x, y, w, h, isTop, type, colors) => {
+  drawClassicPipe(ctx, x, y, w, h, isTop, type, colors);
+  const rimY = isTop ? y + h - 24 : y;
+  ctx.fillStyle = '#C60C30';
+  ctx.fillRect(x - 2, rimY, w + 4, 24);
+  ctx.fillStyle = '#FFF';
+  ctx.fillRect(x - 2, rimY + 10, w + 4, 4);
+  ctx.strokeStyle = '#000';
+  ctx.lineWidth = 2;
+  ctx.strokeRect(x - 2, rimY, w + 4, 24);
+};
+
+export const skyColor = (color: string): BackgroundRenderer => ctx => {
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+};
+
+// Stars twinkle on a fixed pattern so they don't jump around between frames
+export const drawNightSky: BackgroundRenderer = (ctx, time) => {
+  const grad = ctx.createLinearGradient(0, 0, 0, CANVAS_HEIGHT);
+  grad.addColorStop(0, '#0B1026');
+  grad.addColorStop(1, '#2C3E70');
+  ctx.fillStyle = grad;
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+  for(let i=0; i<40; i++) {
+    const sx = (i * 97) % CANVAS_WIDTH;
+    const sy = (i * 53) % (CANVAS_HEIGHT - 150);
+    ctx.globalAlpha = 0.5 + Math.sin(time * 0.003 + i) * 0.5;
+    ctx.fillStyle = '#FFF';
+    ctx.fillRect(sx, sy, 2, 2);
+  }
+  ctx.globalAlpha = 1;
+
+  ctx.fillStyle = '#F7F9F9';
+  ctx.beginPath();
+  ctx.arc(CANVAS_WIDTH - 80, 80, 30, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = '#0B1026';
+  ctx.beginPath();
+  ctx.arc(CANVAS_WIDTH - 68, 72, 26, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+export const drawWinterSky: BackgroundRenderer = (ctx, time) => {
+  ctx.fillStyle = '#AEC6CF';
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+  ctx.fillStyle = '#FFF';
+  for(let i=0; i<60; i++) {
+    const fall = (time * (0.02 + (i % 5) * 0.01) + i * 71) % CANVAS_HEIGHT;
+    const sx = (i * 131 + Math.sin(time * 0.001 + i) * 15) % CANVAS_WIDTH;
+    ctx.beginPath();
+    ctx.arc(sx, fall, 1.5 + (i % 3), 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
+export const drawSummerSky: BackgroundRenderer = ctx => {
+  const grad = ctx.createLinearGradient(0, 0, 0, CANVAS_HEIGHT);
+  grad.addColorStop(0, '#5DADE2');
+  grad.addColorStop(1, '#D6EAF8');
+  ctx.fillStyle = grad;
+  ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+  ctx.fillStyle = '#F4D03F';
+  ctx.beginPath();
+  ctx.arc(90, 90, 40, 0, Math.PI * 2);
+  ctx.fill();
+};
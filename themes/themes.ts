@@ -0,0 +1,125 @@
+import { PowerUpType } from '../game/powerups';
+import {
+  BackgroundRenderer, PipeRenderer,
+  drawCakePipe, drawCandyPipe, drawClassicPipe, drawNightPipe, drawNightSky, drawSummerPipe, drawSummerSky, drawWinterSky, skyColor
+} from './draw';
+import { HAPPY_BIRTHDAY, JINGLE_BELLS, NICHLAS_BIRTHDAY, SUMMER_SONG, Song, TWINKLE } from '../audio/songs';
+
+// --- Themes ---
+// Everything about the look and sound of a run that isn't the rules. Classic
+// is what everyone starts with; the rest are unlocked by the cake secret on
+// the START screen.
+
+export type ThemeId = 'CLASSIC' | 'CAKE' | 'NIGHT' | 'CHRISTMAS' | 'SUMMER';
+
+export interface Theme {
+  id: ThemeId;
+  drawBackground: BackgroundRenderer;
+  cloudColor: string;
+  ground: [string, string]; // Soil and the strip on top
+  drawPipe: PipeRenderer;
+  spikeColors: string[]; // Alternating per tooth
+  spikeTips: string | null; // Pom-poms on the points
+  coin: 'COIN' | 'CAKE';
+  coinIcon: string;
+  powerUpIcons: Record<PowerUpType, string>;
+  shield: [string, string]; // Outline and fill
+  scoreParticles: string[];
+  toastColor: string;
+  playlist: Song[]; // Looped in order during a run
+}
+
+const CLASSIC_ICONS: Record<PowerUpType, string> = { SHIELD: '🛡️', SLOWMO: '🐌', SHRINK: '🤏', DOUBLE: '⭐' };
+
+export const THEMES: Theme[] = [
+  {
+    id: 'CLASSIC',
+    drawBackground: skyColor('#70c5ce'),
+    cloudColor: 'rgba(255, 255, 255, 0.8)',
+    ground: ['#ded895', '#73bf2e'],
+    drawPipe: drawClassicPipe,
+    spikeColors: ['#95A5A6', '#7F8C8D'],
+    spikeTips: null,
+    coin: 'COIN',
+    coinIcon: '🪙',
+    powerUpIcons: CLASSIC_ICONS,
+    shield: ['#5DADE2', 'rgba(93, 173, 226, 0.15)'],
+    scoreParticles: ['#FFD700', '#FFA500', '#FFFFFF', '#2ECC71'],
+    toastColor: '#FFD700',
+    playlist: [NICHLAS_BIRTHDAY, HAPPY_BIRTHDAY],
+  },
+  {
+    id: 'CAKE',
+    drawBackground: skyColor('#70c5ce'),
+    cloudColor: 'rgba(255, 255, 255, 0.8)',
+    ground: ['#ded895', '#73bf2e'],
+    drawPipe: drawCakePipe,
+    spikeColors: ['#FF69B4', '#F1C40F', '#3498DB', '#2ECC71'],
+    spikeTips: '#FFF',
+    coin: 'CAKE',
+    coinIcon: '🍰',
+    powerUpIcons: { SHIELD: '🧁', SLOWMO: '🍰', SHRINK: '🍬', DOUBLE: '🎁' },
+    shield: ['#FF69B4', 'rgba(255, 105, 180, 0.15)'],
+    scoreParticles: ['#FF69B4', '#F1C40F', '#FFFFFF', '#3498DB'],
+    toastColor: '#FFD700',
+    playlist: [HAPPY_BIRTHDAY, NICHLAS_BIRTHDAY],
+  },
+  {
+    id: 'NIGHT',
+    drawBackground: drawNightSky,
+    cloudColor: 'rgba(120, 130, 170, 0.4)',
+    ground: ['#4D5656', '#1E8449'],
+    drawPipe: drawNightPipe,
+    spikeColors: ['#5D6D7E', '#34495E'],
+    spikeTips: null,
+    coin: 'COIN',
+    coinIcon: '🪙',
+    powerUpIcons: CLASSIC_ICONS,
+    shield: ['#F7DC6F', 'rgba(247, 220, 111, 0.15)'],
+    scoreParticles: ['#F7DC6F', '#FFFFFF', '#AED6F1'],
+    toastColor: '#F7DC6F',
+    playlist: [TWINKLE],
+  },
+  {
+    id: 'CHRISTMAS',
+    drawBackground: drawWinterSky,
+    cloudColor: 'rgba(255, 255, 255, 0.9)',
+    ground: ['#FDFEFE', '#D6EAF8'],
+    drawPipe: drawCandyPipe,
+    spikeColors: ['#1E8449', '#27AE60'],
+    spikeTips: '#F1C40F',
+    coin: 'COIN',
+    coinIcon: '🪙',
+    powerUpIcons: { SHIELD: '🧤', SLOWMO: '⛄', SHRINK: '🧝', DOUBLE: '🎁' },
+    shield: ['#FFFFFF', 'rgba(255, 255, 255, 0.25)'],
+    scoreParticles: ['#C0392B', '#27AE60', '#FFFFFF', '#F1C40F'],
+    toastColor: '#FFFFFF',
+    playlist: [JINGLE_BELLS, NICHLAS_BIRTHDAY],
+  },
+  {
+    id: 'SUMMER',
+    drawBackground: drawSummerSky,
+    cloudColor: 'rgba(255, 255, 255, 0.9)',
+    ground: ['#F5CBA7', '#58D68D'],
+    drawPipe: drawSummerPipe,
+    spikeColors: ['#F4D03F', '#E67E22'],
+    spikeTips: null,
+    coin: 'COIN',
+    coinIcon: '🪙',
+    powerUpIcons: { SHIELD: '🕶️', SLOWMO: '🍦', SHRINK: '🐚', DOUBLE: '🍓' },
+    shield: ['#F4D03F', 'rgba(244, 208, 63, 0.15)'],
+    scoreParticles: ['#C60C30', '#FFFFFF', '#F4D03F'],
+    toastColor: '#FFFFFF',
+    playlist: [SUMMER_SONG, NICHLAS_BIRTHDAY],
+  },
+];
+
+export const DEFAULT_THEME: ThemeId = 'CLASSIC';
+
+export function isThemeId(value: unknown): value is ThemeId {
+  return THEMES.some(t => t.id === value);
+}
+
+export function getTheme(id: ThemeId): Theme {
+  return THEMES.find(t => t.id === id) || THEMES[0];
+}